@@ -1,15 +1,24 @@
 #!/usr/bin/env node
 import * as cdk from "aws-cdk-lib";
 import { CdkQuiltFargateStack } from "../lib/cdk-quilt-fargate-stack";
+import { environmentNames, loadConfig } from "../lib/config";
 
 const app = new cdk.App();
-new CdkQuiltFargateStack(app, "CdkQuiltFargateStack", {
-    email: "omics-nov-2023-aaaalfn3qsvil4dfelmhhncbra@quiltdata.slack.com",
-    projectName: "package-engine",
-    zoneDomain: "quilttest.com",
-    zoneID: "Z050530821I8SLJEKKYY6",
-    env: {
-        account: process.env.CDK_DEFAULT_ACCOUNT,
-        region: process.env.CDK_DEFAULT_REGION,
-    },
-});
+const env = {
+    account: process.env.CDK_DEFAULT_ACCOUNT,
+    region: process.env.CDK_DEFAULT_REGION,
+};
+
+const environments = environmentNames(app);
+if (environments.length === 0) {
+    new CdkQuiltFargateStack(app, "CdkQuiltFargateStack", {
+        config: loadConfig(app),
+        env,
+    });
+}
+for (const environment of environments) {
+    new CdkQuiltFargateStack(app, `CdkQuiltFargateStack-${environment}`, {
+        config: loadConfig(app, { environment }),
+        env,
+    });
+}
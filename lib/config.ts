@@ -0,0 +1,2217 @@
+import * as fs from "fs";
+import * as logs from "aws-cdk-lib/aws-logs";
+import * as path from "path";
+import * as YAML from "yaml";
+
+import { Construct } from "constructs";
+import {
+    EndpointDefinition,
+    defaultEndpoints,
+    endpointId,
+    endpointIssues,
+} from "./endpoints";
+
+export interface ContainerConfig {
+    port: number;
+    cpu: number;
+    memory: number;
+    imageTag: string;
+    logRetention: logs.RetentionDays;
+    healthCheckPath: string;
+    healthCheckPort: number;
+}
+
+export type ImageSource = "existing" | "managed" | "asset";
+
+// Where the container image comes from. Repository images run by digest:
+// `digest` when set, else `container.imageTag` resolved at deploy time.
+export interface ImageConfig {
+    // "existing" pulls from a repository made elsewhere, "managed" creates
+    // the repository, "asset" builds `directory` with CDK
+    source: ImageSource;
+    // Defaults to projectName for "existing", [namePrefix-]projectName for
+    // "managed"
+    repositoryName?: string;
+    // "sha256:..."; pins the image instead of the tag
+    digest?: string;
+    // Build context and Dockerfile for "asset"
+    directory: string;
+    dockerfile: string;
+    buildArgs: { [name: string]: string };
+    // Lifecycle rules and scanning for "managed"
+    maxImageCount: number;
+    untaggedExpiryDays: number;
+    scanOnPush: boolean;
+}
+
+// Extra container in the engine's task, logging to the service's log group
+export interface SidecarConfig {
+    // Container name, unique within the task
+    name: string;
+    // Registry image, e.g. "public.ecr.aws/..."
+    image: string;
+    // CPU units and soft memory limit (MiB), taken from the task's
+    cpu: number;
+    memoryReservation: number;
+    // Stop the task when the sidecar exits
+    essential: boolean;
+    environment: { [name: string]: string };
+    command?: string[];
+    // TCP ports the sidecar listens on, reachable from the engine
+    ports: number[];
+    // Start the engine only once the sidecar has started
+    startBeforeEngine: boolean;
+}
+
+export type TraceCollector = "none" | "adot" | "xray";
+
+export type LogRouter = "awslogs" | "firelens";
+
+export interface TelemetryConfig {
+    // Sidecar that receives the engine's traces and sends them to X-Ray:
+    // the ADOT collector (OTLP and X-Ray) or the X-Ray daemon
+    traceCollector: TraceCollector;
+    // "firelens" routes the engine's logs through a Fluent Bit sidecar
+    logRouter: LogRouter;
+    // Fluent Bit output options; defaults to the service's log group
+    fireLensOutput?: { [option: string]: string };
+    containerInsights: boolean;
+}
+
+export const DEFAULT_TELEMETRY: TelemetryConfig = {
+    traceCollector: "none",
+    logRouter: "awslogs",
+    containerInsights: false,
+};
+
+export interface StepScalingConfig {
+    // API Gateway metric to step on: request Count (Sum) or Latency (Average)
+    metric: "requestCount" | "latency";
+    // Intervals on the metric with the task count change for each
+    steps: { lower?: number; upper?: number; change: number }[];
+}
+
+export interface ScheduledScalingConfig {
+    name: string;
+    // Application Auto Scaling expression, e.g. "cron(0 20 ? * MON-FRI *)"
+    schedule: string;
+    minTasks: number;
+    maxTasks: number;
+    // IANA time zone for cron schedules; defaults to UTC
+    timeZone?: string;
+}
+
+export interface ScalingConfig {
+    minTasks: number;
+    maxTasks: number;
+    cpuTargetPercent?: number;
+    memoryTargetPercent?: number;
+    apiStepScaling?: StepScalingConfig;
+    scheduled?: ScheduledScalingConfig[];
+    scaleInCooldownSeconds: number;
+    scaleOutCooldownSeconds: number;
+}
+
+export type ApiAuthMode = "none" | "apiKey" | "iam" | "cognito";
+
+export interface UsagePlanConfig {
+    // Steady-state requests per second and burst capacity
+    rateLimit?: number;
+    burstLimit?: number;
+    quotaLimit?: number;
+    quotaPeriod?: "DAY" | "WEEK" | "MONTH";
+}
+
+export interface ApiAuthConfig {
+    mode: ApiAuthMode;
+    // apiKey mode: keys to create and attach to the usage plan
+    apiKeyNames: string[];
+    usagePlan?: UsagePlanConfig;
+    // cognito mode: existing user pool to trust; a new pool is created if unset
+    userPoolArn?: string;
+    authorizationScopes?: string[];
+    // Defaults to all origins
+    corsAllowOrigins?: string[];
+}
+
+// Keeps the API and NLB inside the VPC. `zoneID` must then be a private
+// hosted zone associated with the VPC.
+export interface PrivateApiConfig {
+    // ACM certificate for the private custom domain, issued outside the stack
+    certificateArn: string;
+    // Networks besides the VPC allowed to reach the execute-api endpoint
+    allowedCidrs: string[];
+}
+
+// WAFv2 web ACL on the API stage. Allowed IPs skip every other rule.
+export interface WafConfig {
+    // AWS managed rule group names, e.g. "AWSManagedRulesCommonRuleSet"
+    managedRuleGroups: string[];
+    // Requests per 5 minutes from one IP before it is blocked
+    rateLimit?: number;
+    // IPv4 or IPv6 CIDRs
+    allowedIps: string[];
+    blockedIps: string[];
+    // ISO 3166 country codes; with allowedCountries, others are blocked
+    allowedCountries: string[];
+    blockedCountries: string[];
+}
+
+export const DEFAULT_WAF: WafConfig = {
+    managedRuleGroups: [
+        "AWSManagedRulesCommonRuleSet",
+        "AWSManagedRulesKnownBadInputsRuleSet",
+    ],
+    allowedIps: [],
+    blockedIps: [],
+    allowedCountries: [],
+    blockedCountries: [],
+};
+
+export interface MethodThrottlingConfig {
+    // Steady-state requests per second and burst capacity
+    rateLimit?: number;
+    burstLimit?: number;
+    // GET only: seconds to cache responses, keyed by path parameters
+    cacheTtlSeconds?: number;
+}
+
+export interface ThrottlingConfig {
+    // Stage-wide limits, applied to every method
+    rateLimit?: number;
+    burstLimit?: number;
+    // Per route, keyed "<METHOD> <path>", e.g. "GET /info"
+    methods: { [route: string]: MethodThrottlingConfig };
+    // Stage cache size in GB, used when a method caches responses
+    cacheClusterSize: string;
+}
+
+export const DEFAULT_THROTTLING: ThrottlingConfig = {
+    methods: {},
+    cacheClusterSize: "0.5",
+};
+
+const CACHE_CLUSTER_SIZES = ["0.5", "1.6", "6.1", "13.5", "28.4", "58.2", "118", "237"];
+
+// Another containerized service behind the same API and NLB, mounted
+// under /<basePath>
+export interface BackendServiceConfig {
+    // Names the service's resources, e.g. "Validator"
+    name: string;
+    // First path segment of the service's routes, e.g. "validator"
+    basePath: string;
+    // `port` must differ from every other service's
+    container: ContainerConfig;
+    // Existing and managed repositories default to <projectName>-<basePath>
+    image: ImageConfig;
+    sidecars: SidecarConfig[];
+    desiredCount: number;
+    // Paths are relative to the service; their rules call /<basePath><path>
+    endpoints: EndpointDefinition[];
+}
+
+// Exactly one of `secret` or `parameter` must be set
+export interface ContainerSecretConfig {
+    // Secrets Manager secret name or ARN
+    secret?: string;
+    // JSON key to read from the secret instead of the whole value
+    field?: string;
+    // SSM parameter name (String or SecureString)
+    parameter?: string;
+    // Customer managed KMS key that encrypts the secret or parameter
+    kmsKeyArn?: string;
+}
+
+export interface RegistryBucketConfig {
+    name: string;
+    // Create the bucket in this stack instead of importing it
+    create?: boolean;
+    // "read" for source-only buckets; registries default to "readWrite"
+    access?: "read" | "readWrite";
+    // Customer managed KMS key for SSE-KMS objects in the bucket
+    kmsKeyArn?: string;
+}
+
+export const DEFAULT_REGISTRY = "udp-spec";
+
+// Uploads to `<bucket>/<prefix><namespace>/<name>/<markerFile>` become a
+// CreatePackage event for package `<namespace>/<name>` in `registry`
+export interface IngestionConfig {
+    // Watched bucket; must be listed in `registries`
+    bucket: string;
+    // Folders to watch, each ending in "/"; defaults to the bucket root
+    prefixes: string[];
+    // File written last to mark a folder upload as complete
+    markerFile: string;
+    // Registry to build packages into; defaults to `bucket`
+    registry: string;
+}
+
+export const DEFAULT_MARKER_FILE = ".quilt-ready";
+
+// Routes CreatePackage events through a state machine that submits the
+// package, waits for it to finish and notifies the topic with the result
+export interface PackageWorkflowConfig {
+    // "poll" GETs statusPath until the job finishes; "callback" passes a
+    // task token in the X-Quilt-Task-Token header for SendTaskSuccess/Failure
+    completion: "poll" | "callback";
+    // Job status endpoint; `{bucket_name}` and `{job_id}` are filled in
+    statusPath: string;
+    initialWaitSeconds: number;
+    // Poll delays double up to this value
+    maxWaitSeconds: number;
+    maxAttempts: number;
+    // How long to wait for a callback
+    callbackTimeoutMinutes: number;
+}
+
+export const DEFAULT_PACKAGE_WORKFLOW: PackageWorkflowConfig = {
+    completion: "poll",
+    statusPath: "/registries/{bucket_name}/packages/jobs/{job_id}",
+    initialWaitSeconds: 5,
+    maxWaitSeconds: 60,
+    maxAttempts: 30,
+    callbackTimeoutMinutes: 60,
+};
+
+// Dedicated bus for the service's events, in place of the default bus
+export interface EventBusConfig {
+    // Other accounts allowed to publish
+    publisherAccounts: string[];
+    // When set, only these roles (and the stack's own) may publish; the
+    // bus policy denies every other principal
+    publisherRoleArns: string[];
+    // Register an EventBridge schema per detail type
+    schemas: boolean;
+    // Days the archive keeps events for replay; 0 keeps them forever
+    archiveRetentionDays: number;
+}
+
+export const DEFAULT_EVENT_BUS: EventBusConfig = {
+    publisherAccounts: [],
+    publisherRoleArns: [],
+    schemas: true,
+    archiveRetentionDays: 30,
+};
+
+export type NotificationSeverity = "INFO" | "WARNING" | "ERROR";
+
+// Matched against the attributes published with every notification;
+// omitted keys match everything
+export interface NotificationFilter {
+    // Endpoint ids, "CreatePackage" or "Ingestion"
+    detailTypes?: string[];
+    severities?: NotificationSeverity[];
+    // SUCCEEDED or FAILED, or a probe's HEALTHY, DEGRADED or FAILED
+    statuses?: string[];
+    // Exact codes or classes such as "5xx"; notifications without a
+    // response (caught errors) never match
+    statusCodes?: (number | string)[];
+}
+
+export type SubscriberType = "email" | "sqs" | "https" | "slack";
+
+export interface SubscriberConfig {
+    type: SubscriberType;
+    // Email address, SQS queue ARN or HTTPS URL; unused for slack
+    endpoint?: string;
+    // Slack workspace (team) and channel ids, for a workspace already
+    // authorized in AWS Chatbot
+    slackWorkspaceId?: string;
+    slackChannelId?: string;
+    filter?: NotificationFilter;
+}
+
+export interface NotificationsConfig {
+    // `email` gets every notification unless it is listed here with a filter
+    subscribers: SubscriberConfig[];
+}
+
+// Runs an endpoint's state machine on a schedule; the topic is only
+// notified when the probe fails, is degraded or recovers
+export interface ProbeConfig {
+    // EventBridge Scheduler expression: rate(), cron() or at()
+    schedule: string;
+    // IANA time zone for cron schedules; defaults to UTC
+    timeZone?: string;
+    // Values of `status` in a 2xx response body that count as healthy;
+    // other values are reported as degraded
+    healthyStatuses: string[];
+}
+
+export const DEFAULT_HEALTHY_STATUSES = ["ok", "healthy", "pass"];
+
+export interface NetworkConfig {
+    // Deploy into this existing VPC instead of creating one
+    vpcId?: string;
+    // Subnets for the tasks; defaults to the VPC's private subnets
+    subnetIds?: string[];
+    // Created VPC only; with no NAT gateways the tasks run in isolated
+    // subnets and need `vpcEndpoints`
+    maxAzs: number;
+    natGateways: number;
+    // Interface and gateway endpoints so the tasks reach AWS privately
+    vpcEndpoints: boolean;
+}
+
+export const DEFAULT_NETWORK: NetworkConfig = {
+    maxAzs: 2,
+    natGateways: 1,
+    vpcEndpoints: false,
+};
+
+export interface AccessLogsConfig {
+    // NLB access logging; off leaves the load balancer without a log bucket
+    enabled: boolean;
+    // Central log archive bucket, whose policy must already allow
+    // delivery.logs.amazonaws.com; defaults to a bucket in this stack
+    bucketName?: string;
+    prefix?: string;
+}
+
+export const DEFAULT_ACCESS_LOGS: AccessLogsConfig = {
+    enabled: true,
+};
+
+export type DeploymentMode = "rolling" | "blueGreen";
+
+export interface DeploymentConfig {
+    // "rolling" uses the ECS circuit breaker; "blueGreen" uses CodeDeploy
+    mode: DeploymentMode;
+    // blueGreen: how production traffic moves to the new tasks; linear and
+    // canary shift `shiftPercent` every (or after) `shiftIntervalMinutes`
+    trafficShift: "allAtOnce" | "linear" | "canary";
+    shiftPercent: number;
+    shiftIntervalMinutes: number;
+    // blueGreen: NLB port that serves the new tasks before the shift
+    testListenerPort: number;
+    // blueGreen: minutes to keep the old tasks after a successful shift
+    terminationWaitMinutes: number;
+    // blueGreen: paths the pre-traffic hook GETs through the test listener
+    validationPaths: string[];
+}
+
+export const DEFAULT_DEPLOYMENT: DeploymentConfig = {
+    mode: "rolling",
+    trafficShift: "canary",
+    shiftPercent: 10,
+    shiftIntervalMinutes: 5,
+    testListenerPort: 9000,
+    terminationWaitMinutes: 5,
+    validationPaths: ["/health", "/info"],
+};
+
+// Alarm thresholds, each compared against one period of its metric
+export interface AlarmThresholds {
+    // API Gateway 5XXError / 4XXError sums
+    api5xxErrors: number;
+    api4xxErrors: number;
+    // API Gateway p99 latency in milliseconds
+    apiLatencyMs: number;
+    // NLB target group UnHealthyHostCount
+    unhealthyHosts: number;
+    // ECS service averages
+    cpuPercent: number;
+    memoryPercent: number;
+    // Alarms below this many running tasks; 0 disables the alarm
+    minRunningTasks: number;
+    // Failed, timed out or aborted executions per state machine
+    stateMachineFailures: number;
+}
+
+export interface MonitoringConfig {
+    dashboard: boolean;
+    alarms: boolean;
+    periodMinutes: number;
+    // Consecutive breaching periods before an alarm fires; state machine
+    // failures always alarm on the first period
+    evaluationPeriods: number;
+    thresholds: AlarmThresholds;
+}
+
+export const DEFAULT_MONITORING: MonitoringConfig = {
+    dashboard: true,
+    alarms: true,
+    periodMinutes: 5,
+    evaluationPeriods: 3,
+    thresholds: {
+        api5xxErrors: 5,
+        api4xxErrors: 50,
+        apiLatencyMs: 3000,
+        unhealthyHosts: 1,
+        cpuPercent: 80,
+        memoryPercent: 80,
+        minRunningTasks: 1,
+        stateMachineFailures: 1,
+    },
+};
+
+// Retry policy added to every Step Functions task
+export interface TaskRetryConfig {
+    maxAttempts: number;
+    intervalSeconds: number;
+    backoffRate: number;
+}
+
+export interface ErrorHandlingConfig {
+    taskRetry: TaskRetryConfig;
+    // EventBridge target retries before an event goes to the dead-letter queue
+    targetRetryAttempts: number;
+    maxEventAgeHours: number;
+    deadLetterRetentionDays: number;
+}
+
+export const DEFAULT_ERROR_HANDLING: ErrorHandlingConfig = {
+    taskRetry: { maxAttempts: 3, intervalSeconds: 2, backoffRate: 2 },
+    targetRetryAttempts: 8,
+    maxEventAgeHours: 24,
+    deadLetterRetentionDays: 14,
+};
+
+export interface QuiltFargateConfig {
+    email: string;
+    projectName: string;
+    zoneID: string;
+    zoneDomain: string;
+    // Set when loaded from an entry under `environments`
+    environmentName?: string;
+    // API Gateway stage; defaults to the environment name, else "prod"
+    stageName: string;
+    // DNS label(s) under zoneDomain; defaults to projectName[-environmentName]
+    subdomain: string;
+    // Prepended to physical resource names; defaults to the environment name
+    namePrefix: string;
+    // EventBridge source; defaults to quilt.<projectName>[.<namePrefix>]
+    eventSource: string;
+    container: ContainerConfig;
+    image: ImageConfig;
+    // Containers next to the engine in its task
+    sidecars: SidecarConfig[];
+    // Tracing, log routing and Container Insights for every service
+    telemetry: TelemetryConfig;
+    // Omit to run a single task with no scaling
+    scaling?: ScalingConfig;
+    apiAuth: ApiAuthConfig;
+    // Omit for an internet-facing NLB and a public API
+    privateApi?: PrivateApiConfig;
+    // Omit to leave the API without a web ACL
+    waf?: WafConfig;
+    throttling: ThrottlingConfig;
+    // Container environment variables read from Secrets Manager or SSM
+    secrets: { [envVar: string]: ContainerSecretConfig };
+    // Force a new deployment when a referenced secret or parameter changes
+    redeployOnSecretChange: boolean;
+    // S3 buckets the package engine reads from or builds packages into
+    registries: RegistryBucketConfig[];
+    // Services mounted next to the package engine on the same API
+    backends: BackendServiceConfig[];
+    // Registry that CreatePackage events target; defaults to the first
+    // read/write registry
+    defaultRegistry: string;
+    ingestion: IngestionConfig[];
+    // Endpoints added to (or replacing, by id) the built-in ones
+    endpoints: EndpointDefinition[];
+    // OpenAPI document whose `x-quilt-event` operations become endpoints
+    openApiSpec?: string;
+    // Omit to post CreatePackage events straight to the API
+    packageWorkflow?: PackageWorkflowConfig;
+    // Omit to use the default event bus
+    eventBus?: EventBusConfig;
+    notifications: NotificationsConfig;
+    errorHandling: ErrorHandlingConfig;
+    // Scheduled probes, keyed by the id of an endpoint with a state machine
+    probes: { [endpointId: string]: ProbeConfig };
+    monitoring: MonitoringConfig;
+    deployment: DeploymentConfig;
+    network: NetworkConfig;
+    accessLogs: AccessLogsConfig;
+    // Fail synthesis on wildcard IAM actions or broad AWS managed policies
+    strictIam: boolean;
+}
+
+// Partial config as read from a single source, before merging and validation
+export type QuiltFargateConfigInput = Partial<
+    Omit<
+        QuiltFargateConfig,
+        | "container"
+        | "image"
+        | "sidecars"
+        | "telemetry"
+        | "backends"
+        | "scaling"
+        | "apiAuth"
+        | "privateApi"
+        | "waf"
+        | "throttling"
+        | "ingestion"
+        | "packageWorkflow"
+        | "eventBus"
+        | "notifications"
+        | "errorHandling"
+        | "probes"
+        | "monitoring"
+        | "deployment"
+        | "network"
+        | "accessLogs"
+    >
+> & {
+    network?: Partial<NetworkConfig>;
+    accessLogs?: Partial<AccessLogsConfig>;
+    deployment?: Partial<DeploymentConfig>;
+    monitoring?: Partial<Omit<MonitoringConfig, "thresholds">> & {
+        thresholds?: Partial<AlarmThresholds>;
+    };
+    probes?: {
+        [endpointId: string]: Partial<ProbeConfig> & { schedule: string };
+    };
+    errorHandling?: Partial<Omit<ErrorHandlingConfig, "taskRetry">> & {
+        taskRetry?: Partial<TaskRetryConfig>;
+    };
+    packageWorkflow?: Partial<PackageWorkflowConfig>;
+    eventBus?: Partial<EventBusConfig>;
+    notifications?: Partial<NotificationsConfig>;
+    ingestion?: (Partial<IngestionConfig> & { bucket: string })[];
+    container?: Partial<ContainerConfig>;
+    image?: Partial<ImageConfig>;
+    sidecars?: (Partial<SidecarConfig> & { name: string; image: string })[];
+    telemetry?: Partial<TelemetryConfig>;
+    backends?: (
+        & Partial<
+            Omit<BackendServiceConfig, "container" | "image" | "sidecars">
+        >
+        & {
+            container?: Partial<ContainerConfig>;
+            image?: Partial<ImageConfig>;
+            sidecars?: QuiltFargateConfigInput["sidecars"];
+        }
+    )[];
+    scaling?: Partial<ScalingConfig>;
+    apiAuth?: Partial<ApiAuthConfig>;
+    privateApi?: Partial<PrivateApiConfig> & { certificateArn: string };
+    waf?: Partial<WafConfig>;
+    throttling?: Partial<ThrottlingConfig>;
+};
+
+// Top-level config: shared settings plus per-environment overrides
+export type QuiltFargateAppConfigInput = QuiltFargateConfigInput & {
+    environments?: { [name: string]: QuiltFargateConfigInput };
+};
+
+export const CONFIG_CONTEXT_KEY = "quilt";
+export const CONFIG_FILE_CONTEXT_KEY = "quiltConfigFile";
+export const CONFIG_FILE_ENV_VAR = "QUILT_CONFIG_FILE";
+
+export const DEFAULT_STAGE_NAME = "prod";
+
+// Keeps prefixed NLB (32) and S3 bucket (63) names within AWS limits
+const MAX_NAME_PREFIX_LENGTH = 10;
+
+export const DEFAULT_CONTAINER_CONFIG: ContainerConfig = {
+    port: 3000,
+    cpu: 256,
+    memory: 512,
+    imageTag: "latest",
+    logRetention: logs.RetentionDays.ONE_WEEK,
+    healthCheckPath: "/health",
+    healthCheckPort: 3000,
+};
+
+export const DEFAULT_IMAGE: ImageConfig = {
+    source: "existing",
+    directory: ".",
+    dockerfile: "Dockerfile",
+    buildArgs: {},
+    maxImageCount: 30,
+    untaggedExpiryDays: 7,
+    scanOnPush: true,
+};
+
+const IMAGE_SOURCES: ImageSource[] = ["existing", "managed", "asset"];
+
+// Supported Fargate task sizes: cpu units => allowed memory (MiB)
+// https://docs.aws.amazon.com/AmazonECS/latest/developerguide/task-cpu-memory-error.html
+const FARGATE_MEMORY_BY_CPU: { [cpu: number]: number[] } = {
+    256: [512, 1024, 2048],
+    512: range(1024, 4096, 1024),
+    1024: range(2048, 8192, 1024),
+    2048: range(4096, 16384, 1024),
+    4096: range(8192, 30720, 1024),
+    8192: range(16384, 61440, 4096),
+    16384: range(32768, 122880, 8192),
+};
+
+function range(start: number, end: number, step: number): number[] {
+    const values: number[] = [];
+    for (let value = start; value <= end; value += step) {
+        values.push(value);
+    }
+    return values;
+}
+
+export class ConfigValidationError extends Error {
+    constructor(public readonly issues: string[]) {
+        super(
+            `Invalid Quilt Fargate configuration:\n  - ${
+                issues.join("\n  - ")
+            }`,
+        );
+        this.name = "ConfigValidationError";
+    }
+}
+
+// Environment variables recognized by `configFromEnv`
+const ENV_KEYS: { [key: string]: string } = {
+    QUILT_EMAIL: "email",
+    QUILT_PROJECT_NAME: "projectName",
+    QUILT_ZONE_ID: "zoneID",
+    QUILT_ZONE_DOMAIN: "zoneDomain",
+    QUILT_STAGE_NAME: "stageName",
+    QUILT_SUBDOMAIN: "subdomain",
+    QUILT_NAME_PREFIX: "namePrefix",
+    QUILT_EVENT_SOURCE: "eventSource",
+    QUILT_DEFAULT_REGISTRY: "defaultRegistry",
+    QUILT_OPENAPI_SPEC: "openApiSpec",
+};
+
+const CONTAINER_ENV_KEYS: { [key: string]: keyof ContainerConfig } = {
+    QUILT_CONTAINER_PORT: "port",
+    QUILT_CONTAINER_CPU: "cpu",
+    QUILT_CONTAINER_MEMORY: "memory",
+    QUILT_CONTAINER_IMAGE_TAG: "imageTag",
+    QUILT_CONTAINER_LOG_RETENTION: "logRetention",
+    QUILT_CONTAINER_HEALTH_CHECK_PATH: "healthCheckPath",
+    QUILT_CONTAINER_HEALTH_CHECK_PORT: "healthCheckPort",
+};
+
+const NUMERIC_CONTAINER_KEYS: (keyof ContainerConfig)[] = [
+    "port",
+    "cpu",
+    "memory",
+    "logRetention",
+    "healthCheckPort",
+];
+
+export function configFromEnv(
+    env: NodeJS.ProcessEnv = process.env,
+): QuiltFargateConfigInput {
+    const config: { [key: string]: unknown } = {};
+    const container: { [key: string]: unknown } = {};
+    for (const [envKey, key] of Object.entries(ENV_KEYS)) {
+        if (env[envKey] !== undefined) {
+            config[key] = env[envKey];
+        }
+    }
+    for (const [envKey, key] of Object.entries(CONTAINER_ENV_KEYS)) {
+        const value = env[envKey];
+        if (value !== undefined) {
+            container[key] = NUMERIC_CONTAINER_KEYS.includes(key)
+                ? Number(value)
+                : value;
+        }
+    }
+    if (Object.keys(container).length > 0) {
+        config.container = container;
+    }
+    return config as QuiltFargateConfigInput;
+}
+
+// Reads a JSON or YAML config file, chosen by extension
+export function configFromFile(filePath: string): QuiltFargateAppConfigInput {
+    const resolved = path.resolve(filePath);
+    if (!fs.existsSync(resolved)) {
+        throw new Error(`Config file not found: ${resolved}`);
+    }
+    const text = fs.readFileSync(resolved, "utf8");
+    const ext = path.extname(resolved).toLowerCase();
+    const parsed = ext === ".yaml" || ext === ".yml"
+        ? YAML.parse(text)
+        : JSON.parse(text);
+    if (parsed === null || typeof parsed !== "object") {
+        throw new Error(`Config file ${resolved} must contain an object`);
+    }
+    return parsed as QuiltFargateAppConfigInput;
+}
+
+function validateScaling(
+    input: Partial<ScalingConfig>,
+    issues: string[],
+): ScalingConfig {
+    const minTasks = input.minTasks ?? 1;
+    const scaling: ScalingConfig = {
+        scaleInCooldownSeconds: 300,
+        scaleOutCooldownSeconds: 60,
+        ...input,
+        minTasks,
+        maxTasks: input.maxTasks ?? Math.max(minTasks, 1),
+    };
+    const isCount = (value: unknown) =>
+        typeof value === "number" && Number.isInteger(value) && value >= 0;
+
+    for (
+        const key of [
+            "minTasks",
+            "maxTasks",
+            "scaleInCooldownSeconds",
+            "scaleOutCooldownSeconds",
+        ] as const
+    ) {
+        if (!isCount(scaling[key])) {
+            issues.push(
+                `'scaling.${key}' must be a non-negative integer: ${scaling[key]}`,
+            );
+        }
+    }
+    if (scaling.maxTasks < 1) {
+        issues.push(`'scaling.maxTasks' must be at least 1`);
+    }
+    if (scaling.minTasks > scaling.maxTasks) {
+        issues.push(
+            `'scaling.minTasks' (${scaling.minTasks}) exceeds 'scaling.maxTasks' (${scaling.maxTasks})`,
+        );
+    }
+    for (const key of ["cpuTargetPercent", "memoryTargetPercent"] as const) {
+        const value = scaling[key];
+        if (
+            value !== undefined &&
+            (typeof value !== "number" || value <= 0 || value > 100)
+        ) {
+            issues.push(`'scaling.${key}' must be in (0, 100]: ${value}`);
+        }
+    }
+
+    const step = scaling.apiStepScaling;
+    if (step) {
+        if (!["requestCount", "latency"].includes(step.metric)) {
+            issues.push(
+                `'scaling.apiStepScaling.metric' must be 'requestCount' or 'latency': ${step.metric}`,
+            );
+        }
+        // Application Auto Scaling needs at least two intervals per policy
+        if (!Array.isArray(step.steps) || step.steps.length < 2) {
+            issues.push(
+                `'scaling.apiStepScaling.steps' needs at least 2 intervals`,
+            );
+        } else {
+            step.steps.forEach((interval, i) => {
+                if (
+                    interval.lower === undefined &&
+                    interval.upper === undefined
+                ) {
+                    issues.push(
+                        `'scaling.apiStepScaling.steps[${i}]' needs a lower or upper bound`,
+                    );
+                }
+                if (!Number.isInteger(interval.change)) {
+                    issues.push(
+                        `'scaling.apiStepScaling.steps[${i}].change' must be an integer: ${interval.change}`,
+                    );
+                }
+            });
+        }
+    }
+
+    const names = new Set<string>();
+    (scaling.scheduled ?? []).forEach((schedule, i) => {
+        const where = `'scaling.scheduled[${i}]'`;
+        if (!schedule.name || !/^[A-Za-z0-9]+$/.test(schedule.name)) {
+            issues.push(`${where}.name must be alphanumeric: ${schedule.name}`);
+        } else if (names.has(schedule.name)) {
+            issues.push(`${where}.name is a duplicate: ${schedule.name}`);
+        }
+        names.add(schedule.name);
+        if (!/^(cron|rate|at)\(.+\)$/.test(schedule.schedule ?? "")) {
+            issues.push(
+                `${where}.schedule must be a cron(), rate() or at() expression: ${schedule.schedule}`,
+            );
+        }
+        if (!isCount(schedule.minTasks) || !isCount(schedule.maxTasks)) {
+            issues.push(`${where} minTasks and maxTasks must be non-negative integers`);
+        } else if (schedule.minTasks > schedule.maxTasks) {
+            issues.push(`${where}.minTasks exceeds its maxTasks`);
+        }
+    });
+
+    return scaling;
+}
+
+const API_AUTH_MODES: ApiAuthMode[] = ["none", "apiKey", "iam", "cognito"];
+
+// Environment variables the stack sets itself
+const RESERVED_ENV_VARS = ["PUBLIC_DNS_NAME"];
+
+// Container names the stack uses for the engine, collector and log router
+const RESERVED_CONTAINER_NAMES = [
+    "CdkQuiltFargateContainer",
+    "otel-collector",
+    "xray-daemon",
+    "log-router",
+];
+
+const TRACE_COLLECTORS: TraceCollector[] = ["none", "adot", "xray"];
+
+const LOG_ROUTERS: LogRouter[] = ["awslogs", "firelens"];
+
+function validateSidecars(
+    input: NonNullable<QuiltFargateConfigInput["sidecars"]>,
+    container: ContainerConfig,
+    key: string,
+    issues: string[],
+): SidecarConfig[] {
+    if (!Array.isArray(input)) {
+        issues.push(`'${key}' must be a list`);
+        return [];
+    }
+    const names = new Set<string>();
+    const sidecars = input.map((entry, i) => {
+        const where = `${key}[${i}]`;
+        const sidecar: SidecarConfig = {
+            cpu: 64,
+            memoryReservation: 64,
+            essential: false,
+            environment: {},
+            ports: [],
+            startBeforeEngine: false,
+            ...entry,
+        };
+        if (
+            !/^[A-Za-z0-9_-]+$/.test(sidecar.name) ||
+            RESERVED_CONTAINER_NAMES.includes(sidecar.name)
+        ) {
+            issues.push(`'${where}.name' must be alphanumeric and not reserved: ${sidecar.name}`);
+        } else if (names.has(sidecar.name)) {
+            issues.push(`'${where}.name' is a duplicate: ${sidecar.name}`);
+        }
+        names.add(sidecar.name);
+        if (typeof sidecar.image !== "string" || sidecar.image === "") {
+            issues.push(`'${where}.image' must be a non-empty string`);
+        }
+        for (const field of ["cpu", "memoryReservation"] as const) {
+            if (!Number.isInteger(sidecar[field]) || sidecar[field] < 1) {
+                issues.push(`'${where}.${field}' must be a positive integer: ${sidecar[field]}`);
+            }
+        }
+        const invalid = sidecar.ports.filter((port) =>
+            !Number.isInteger(port) || port < 1 || port > 65535 ||
+            port === container.port
+        );
+        if (invalid.length > 0) {
+            issues.push(
+                `'${where}.ports' must be valid ports other than the engine's: ${invalid.join(", ")}`,
+            );
+        }
+        return sidecar;
+    });
+    // Sidecars share the task's CPU and memory with the engine
+    const cpu = sidecars.reduce((sum, sidecar) => sum + sidecar.cpu, 0);
+    const memory = sidecars.reduce(
+        (sum, sidecar) => sum + sidecar.memoryReservation,
+        0,
+    );
+    if (sidecars.length > 0 && (cpu >= container.cpu || memory >= container.memory)) {
+        issues.push(
+            `'${key}' reserve ${cpu} CPU units and ${memory} MiB, leaving nothing of the task's ${container.cpu} and ${container.memory}`,
+        );
+    }
+    return sidecars;
+}
+
+function validateTelemetry(
+    input: Partial<TelemetryConfig>,
+    issues: string[],
+): TelemetryConfig {
+    const telemetry: TelemetryConfig = { ...DEFAULT_TELEMETRY, ...input };
+    if (!TRACE_COLLECTORS.includes(telemetry.traceCollector)) {
+        issues.push(
+            `'telemetry.traceCollector' must be one of ${
+                TRACE_COLLECTORS.join(", ")
+            }: ${telemetry.traceCollector}`,
+        );
+    }
+    if (!LOG_ROUTERS.includes(telemetry.logRouter)) {
+        issues.push(
+            `'telemetry.logRouter' must be one of ${
+                LOG_ROUTERS.join(", ")
+            }: ${telemetry.logRouter}`,
+        );
+    }
+    if (telemetry.fireLensOutput) {
+        if (telemetry.logRouter !== "firelens") {
+            issues.push(`'telemetry.fireLensOutput' needs logRouter "firelens"`);
+        }
+        if (!telemetry.fireLensOutput.Name) {
+            issues.push(`'telemetry.fireLensOutput' needs a Fluent Bit output Name`);
+        }
+    }
+    return telemetry;
+}
+
+function validateSecrets(
+    secrets: { [envVar: string]: ContainerSecretConfig },
+    issues: string[],
+): void {
+    for (const [envVar, ref] of Object.entries(secrets)) {
+        const where = `'secrets.${envVar}'`;
+        if (!/^[A-Za-z_][A-Za-z0-9_]*$/.test(envVar)) {
+            issues.push(`${where} is not a valid environment variable name`);
+        }
+        if (RESERVED_ENV_VARS.includes(envVar)) {
+            issues.push(`${where} is set by the stack and cannot be overridden`);
+        }
+        if (!ref || typeof ref !== "object") {
+            issues.push(`${where} must be an object`);
+            continue;
+        }
+        if (!ref.secret === !ref.parameter) {
+            issues.push(`${where} needs exactly one of 'secret' or 'parameter'`);
+        }
+        if (ref.field !== undefined && !ref.secret) {
+            issues.push(`${where}.field only applies to 'secret'`);
+        }
+        if (
+            ref.kmsKeyArn !== undefined &&
+            !/^arn:[^:]+:kms:[^:]+:\d{12}:key\/.+$/.test(ref.kmsKeyArn)
+        ) {
+            issues.push(`${where}.kmsKeyArn is not a KMS key ARN: ${ref.kmsKeyArn}`);
+        }
+    }
+}
+
+function validateRegistries(
+    registries: RegistryBucketConfig[],
+    issues: string[],
+): void {
+    const names = new Set<string>();
+    registries.forEach((registry, i) => {
+        const where = `'registries[${i}]'`;
+        if (
+            typeof registry.name !== "string" ||
+            !/^[a-z0-9][a-z0-9.-]{1,61}[a-z0-9]$/.test(registry.name)
+        ) {
+            issues.push(`${where}.name is not a valid bucket name: ${registry.name}`);
+        } else if (names.has(registry.name)) {
+            issues.push(`${where}.name is a duplicate: ${registry.name}`);
+        }
+        names.add(registry.name);
+        if (
+            registry.access !== undefined &&
+            !["read", "readWrite"].includes(registry.access)
+        ) {
+            issues.push(
+                `${where}.access must be 'read' or 'readWrite': ${registry.access}`,
+            );
+        }
+        if (
+            registry.kmsKeyArn !== undefined &&
+            !/^arn:[^:]+:kms:[^:]+:\d{12}:key\/.+$/.test(registry.kmsKeyArn)
+        ) {
+            issues.push(
+                `${where}.kmsKeyArn is not a KMS key ARN: ${registry.kmsKeyArn}`,
+            );
+        }
+    });
+}
+
+function validateIngestion(
+    input: (Partial<IngestionConfig> & { bucket: string })[],
+    registries: RegistryBucketConfig[],
+    issues: string[],
+): IngestionConfig[] {
+    return input.map((entry, i) => {
+        const where = `'ingestion[${i}]'`;
+        const ingestion: IngestionConfig = {
+            prefixes: [""],
+            markerFile: DEFAULT_MARKER_FILE,
+            registry: entry.bucket,
+            ...entry,
+        };
+        if (!registries.some((r) => r.name === ingestion.bucket)) {
+            issues.push(
+                `${where}.bucket must be listed in 'registries': ${ingestion.bucket}`,
+            );
+        }
+        if (
+            !registries.some((r) =>
+                r.name === ingestion.registry && r.access !== "read"
+            )
+        ) {
+            issues.push(
+                `${where}.registry must be a read/write entry in 'registries': ${ingestion.registry}`,
+            );
+        }
+        if (!Array.isArray(ingestion.prefixes) || ingestion.prefixes.length === 0) {
+            issues.push(`${where}.prefixes must be a non-empty list`);
+        } else {
+            for (const prefix of ingestion.prefixes) {
+                if (
+                    typeof prefix !== "string" ||
+                    prefix.startsWith("/") ||
+                    (prefix !== "" && !prefix.endsWith("/"))
+                ) {
+                    issues.push(
+                        `${where}.prefixes entries must be relative folders ending in '/': ${prefix}`,
+                    );
+                }
+            }
+        }
+        if (
+            typeof ingestion.markerFile !== "string" ||
+            ingestion.markerFile === "" ||
+            ingestion.markerFile.includes("/")
+        ) {
+            issues.push(
+                `${where}.markerFile must be a file name without '/': ${ingestion.markerFile}`,
+            );
+        }
+        return ingestion;
+    });
+}
+
+function validateEventBus(
+    input: Partial<EventBusConfig>,
+    issues: string[],
+): EventBusConfig {
+    const bus: EventBusConfig = { ...DEFAULT_EVENT_BUS, ...input };
+    if (
+        !Array.isArray(bus.publisherAccounts) ||
+        bus.publisherAccounts.some((account) => !/^\d{12}$/.test(account))
+    ) {
+        issues.push(
+            `'eventBus.publisherAccounts' must be a list of account IDs: ${bus.publisherAccounts}`,
+        );
+    }
+    if (
+        !Array.isArray(bus.publisherRoleArns) ||
+        bus.publisherRoleArns.some((arn) =>
+            !/^arn:aws[a-z-]*:iam::\d{12}:role\/.+$/.test(arn)
+        )
+    ) {
+        issues.push(
+            `'eventBus.publisherRoleArns' must be a list of IAM role ARNs: ${bus.publisherRoleArns}`,
+        );
+    }
+    if (
+        !Number.isInteger(bus.archiveRetentionDays) ||
+        bus.archiveRetentionDays < 0
+    ) {
+        issues.push(
+            `'eventBus.archiveRetentionDays' must be a non-negative integer: ${bus.archiveRetentionDays}`,
+        );
+    }
+    return bus;
+}
+
+const SUBSCRIBER_TYPES: SubscriberType[] = ["email", "sqs", "https", "slack"];
+
+const NOTIFICATION_SEVERITIES: NotificationSeverity[] = ["INFO", "WARNING", "ERROR"];
+
+function validateNotifications(
+    input: Partial<NotificationsConfig>,
+    issues: string[],
+): NotificationsConfig {
+    const subscribers = input.subscribers ?? [];
+    if (!Array.isArray(subscribers)) {
+        issues.push(`'notifications.subscribers' must be a list`);
+        return { subscribers: [] };
+    }
+    // Slack channels and queues name their constructs, so each may appear
+    // only once
+    const named = new Map<string, number>();
+    const checkUnique = (index: number, field: string, name: string) => {
+        const first = named.get(`${field}:${name}`);
+        if (first === undefined) {
+            named.set(`${field}:${name}`, index);
+            return;
+        }
+        issues.push(
+            `'notifications.subscribers[${index}].${field}' repeats subscribers[${first}]: ${name}`,
+        );
+    };
+    subscribers.forEach((subscriber, index) => {
+        const key = `notifications.subscribers[${index}]`;
+        const endpoint = subscriber.endpoint ?? "";
+        switch (subscriber.type) {
+            case "email":
+                if (!/^[^@\s]+@[^@\s]+\.[^@\s]+$/.test(endpoint)) {
+                    issues.push(`'${key}.endpoint' must be an email address: ${endpoint}`);
+                }
+                break;
+            case "sqs":
+                // Standard topics cannot deliver to FIFO queues
+                if (!/^arn:aws[a-z-]*:sqs:[a-z0-9-]+:\d{12}:[\w-]+$/.test(endpoint)) {
+                    issues.push(`'${key}.endpoint' must be a standard SQS queue ARN: ${endpoint}`);
+                }
+                checkUnique(index, "endpoint", endpoint.split(":").pop()!);
+                break;
+            case "https":
+                if (!/^https:\/\/[^\s/]+/.test(endpoint)) {
+                    issues.push(`'${key}.endpoint' must be an https:// URL: ${endpoint}`);
+                }
+                break;
+            case "slack":
+                if (!/^T[A-Z0-9]+$/.test(subscriber.slackWorkspaceId ?? "")) {
+                    issues.push(`'${key}.slackWorkspaceId' must be a Slack team id: ${subscriber.slackWorkspaceId}`);
+                }
+                if (!/^[A-Z0-9]+$/.test(subscriber.slackChannelId ?? "")) {
+                    issues.push(`'${key}.slackChannelId' must be a Slack channel id: ${subscriber.slackChannelId}`);
+                }
+                checkUnique(index, "slackChannelId", subscriber.slackChannelId ?? "");
+                break;
+            default:
+                issues.push(
+                    `'${key}.type' must be one of ${SUBSCRIBER_TYPES.join(", ")}: ${subscriber.type}`,
+                );
+        }
+        const filter = subscriber.filter ?? {};
+        for (const field of ["detailTypes", "statuses"] as const) {
+            const values = filter[field];
+            if (
+                values !== undefined &&
+                (!Array.isArray(values) ||
+                    values.some((value) => typeof value !== "string"))
+            ) {
+                issues.push(`'${key}.filter.${field}' must be a list of strings`);
+            }
+        }
+        const severities = filter.severities ?? [];
+        if (
+            !Array.isArray(severities) ||
+            severities.some((value) => !NOTIFICATION_SEVERITIES.includes(value))
+        ) {
+            issues.push(
+                `'${key}.filter.severities' must be a list of ${NOTIFICATION_SEVERITIES.join(", ")}: ${severities}`,
+            );
+        }
+        const statusCodes = filter.statusCodes ?? [];
+        if (
+            !Array.isArray(statusCodes) ||
+            statusCodes.some((code) =>
+                typeof code === "number"
+                    ? !Number.isInteger(code) || code < 100 || code > 599
+                    : !/^[1-5]xx$/.test(code)
+            )
+        ) {
+            issues.push(
+                `'${key}.filter.statusCodes' must be HTTP status codes or classes such as "5xx": ${statusCodes}`,
+            );
+        }
+    });
+    return { subscribers };
+}
+
+function validatePackageWorkflow(
+    input: Partial<PackageWorkflowConfig>,
+    issues: string[],
+): PackageWorkflowConfig {
+    const workflow: PackageWorkflowConfig = {
+        ...DEFAULT_PACKAGE_WORKFLOW,
+        ...input,
+    };
+    if (!["poll", "callback"].includes(workflow.completion)) {
+        issues.push(
+            `'packageWorkflow.completion' must be 'poll' or 'callback': ${workflow.completion}`,
+        );
+    }
+    // The path is rendered with States.Format, which reserves ' and \
+    const statusPath = String(workflow.statusPath ?? "");
+    const placeholders: string[] = statusPath.match(/{[^}]+}/g) ?? [];
+    if (
+        !statusPath.startsWith("/") ||
+        !placeholders.includes("{job_id}") ||
+        placeholders.some((p) => p !== "{job_id}" && p !== "{bucket_name}") ||
+        /['\\]/.test(statusPath)
+    ) {
+        issues.push(
+            `'packageWorkflow.statusPath' must start with '/' and use only {job_id} and {bucket_name}: ${workflow.statusPath}`,
+        );
+    }
+    for (
+        const key of [
+            "initialWaitSeconds",
+            "maxWaitSeconds",
+            "maxAttempts",
+            "callbackTimeoutMinutes",
+        ] as const
+    ) {
+        const value = workflow[key];
+        if (!Number.isInteger(value) || value < 1) {
+            issues.push(`'packageWorkflow.${key}' must be a positive integer: ${value}`);
+        }
+    }
+    if (workflow.initialWaitSeconds > workflow.maxWaitSeconds) {
+        issues.push(
+            `'packageWorkflow.initialWaitSeconds' exceeds 'maxWaitSeconds'`,
+        );
+    }
+    return workflow;
+}
+
+function validateProbes(
+    input: NonNullable<QuiltFargateConfigInput["probes"]>,
+    issues: string[],
+): { [endpointId: string]: ProbeConfig } {
+    const probes: { [endpointId: string]: ProbeConfig } = {};
+    for (const [id, probe] of Object.entries(input)) {
+        const where = `'probes.${id}'`;
+        if (!/^[A-Za-z0-9]+$/.test(id)) {
+            issues.push(`${where} must be keyed by an alphanumeric endpoint id`);
+        }
+        if (!/^(cron|rate|at)\(.+\)$/.test(probe?.schedule ?? "")) {
+            issues.push(
+                `${where}.schedule must be a cron(), rate() or at() expression: ${probe?.schedule}`,
+            );
+        }
+        const healthyStatuses = probe?.healthyStatuses ??
+            DEFAULT_HEALTHY_STATUSES;
+        if (
+            !Array.isArray(healthyStatuses) ||
+            healthyStatuses.length === 0 ||
+            healthyStatuses.some((value) => typeof value !== "string")
+        ) {
+            issues.push(`${where}.healthyStatuses must be a non-empty list of strings`);
+        }
+        probes[id] = { ...probe, healthyStatuses };
+    }
+    return probes;
+}
+
+function validateNetwork(
+    input: Partial<NetworkConfig>,
+    issues: string[],
+): NetworkConfig {
+    const network: NetworkConfig = { ...DEFAULT_NETWORK, ...input };
+    if (network.vpcId !== undefined && !/^vpc-[0-9a-f]+$/.test(network.vpcId)) {
+        issues.push(`'network.vpcId' is not a VPC ID: ${network.vpcId}`);
+    }
+    if (network.subnetIds !== undefined) {
+        if (network.vpcId === undefined) {
+            issues.push(`'network.subnetIds' requires 'network.vpcId'`);
+        }
+        if (
+            !Array.isArray(network.subnetIds) ||
+            network.subnetIds.length === 0 ||
+            network.subnetIds.some((id) => !/^subnet-[0-9a-f]+$/.test(id))
+        ) {
+            issues.push(`'network.subnetIds' must be a non-empty list of subnet IDs`);
+        }
+    }
+    if (!Number.isInteger(network.maxAzs) || network.maxAzs < 1) {
+        issues.push(`'network.maxAzs' must be a positive integer: ${network.maxAzs}`);
+    }
+    if (
+        !Number.isInteger(network.natGateways) ||
+        network.natGateways < 0 ||
+        network.natGateways > network.maxAzs
+    ) {
+        issues.push(
+            `'network.natGateways' must be an integer from 0 to 'maxAzs': ${network.natGateways}`,
+        );
+    }
+    if (
+        network.vpcId === undefined &&
+        network.natGateways === 0 &&
+        !network.vpcEndpoints
+    ) {
+        issues.push(
+            `'network.natGateways' of 0 requires 'network.vpcEndpoints' so tasks can pull images`,
+        );
+    }
+    return network;
+}
+
+function validateContainer(
+    container: ContainerConfig,
+    key: string,
+    issues: string[],
+): void {
+    for (const field of NUMERIC_CONTAINER_KEYS) {
+        const value = container[field];
+        if (typeof value !== "number" || !Number.isInteger(value)) {
+            issues.push(`'${key}.${field}' must be an integer: ${value}`);
+        }
+    }
+    for (const field of ["port", "healthCheckPort"] as const) {
+        const value = container[field];
+        if (Number.isInteger(value) && (value < 1 || value > 65535)) {
+            issues.push(`'${key}.${field}' is out of range: ${value}`);
+        }
+    }
+    if (container.healthCheckPort !== container.port) {
+        issues.push(
+            `'${key}.healthCheckPort' (${container.healthCheckPort}) must match '${key}.port' (${container.port})`,
+        );
+    }
+    if (
+        typeof container.healthCheckPath !== "string" ||
+        !container.healthCheckPath.startsWith("/")
+    ) {
+        issues.push(
+            `'${key}.healthCheckPath' must start with '/': ${container.healthCheckPath}`,
+        );
+    }
+    if (typeof container.imageTag !== "string" || !container.imageTag) {
+        issues.push(`'${key}.imageTag' must be a non-empty string`);
+    }
+    if (
+        !Object.values(logs.RetentionDays).includes(container.logRetention)
+    ) {
+        issues.push(
+            `'${key}.logRetention' is not a supported number of days: ${container.logRetention}`,
+        );
+    }
+
+    const allowedMemory = FARGATE_MEMORY_BY_CPU[container.cpu];
+    if (!allowedMemory) {
+        issues.push(
+            `'${key}.cpu' must be one of ${
+                Object.keys(FARGATE_MEMORY_BY_CPU).join(", ")
+            }: ${container.cpu}`,
+        );
+    } else if (!allowedMemory.includes(container.memory)) {
+        issues.push(
+            `'${key}.memory' ${container.memory} is not valid for cpu ${container.cpu}; allowed: ${
+                allowedMemory.join(", ")
+            }`,
+        );
+    }
+}
+
+// `reserved` holds the ports of the primary's sidecars and test listener
+function validateBackends(
+    input: NonNullable<QuiltFargateConfigInput["backends"]>,
+    primary: ContainerConfig,
+    reserved: number[],
+    issues: string[],
+): BackendServiceConfig[] {
+    if (!Array.isArray(input)) {
+        issues.push(`'backends' must be a list`);
+        return [];
+    }
+    const names = new Set<string>();
+    const basePaths = new Set<string>();
+    const ports = new Set([primary.port, ...reserved]);
+    return input.map((entry, i) => {
+        const key = `backends[${i}]`;
+        const backend: BackendServiceConfig = {
+            name: "",
+            basePath: "",
+            desiredCount: 1,
+            endpoints: [],
+            ...entry,
+            container: {
+                ...DEFAULT_CONTAINER_CONFIG,
+                healthCheckPort: entry.container?.port ??
+                    DEFAULT_CONTAINER_CONFIG.healthCheckPort,
+                ...entry.container,
+            },
+            image: validateImage(entry.image ?? {}, issues, `${key}.image`),
+            sidecars: [],
+        };
+        backend.sidecars = validateSidecars(
+            entry.sidecars ?? [],
+            backend.container,
+            `${key}.sidecars`,
+            issues,
+        );
+        if (!/^[A-Za-z][A-Za-z0-9]*$/.test(backend.name)) {
+            issues.push(`'${key}.name' must be alphanumeric: ${backend.name}`);
+        } else if (names.has(backend.name)) {
+            issues.push(`'${key}.name' is a duplicate: ${backend.name}`);
+        }
+        names.add(backend.name);
+        if (
+            !/^[a-z0-9][a-z0-9-]*$/.test(backend.basePath) ||
+            backend.basePath === "_internal"
+        ) {
+            issues.push(
+                `'${key}.basePath' must be a lowercase path segment: ${backend.basePath}`,
+            );
+        } else if (basePaths.has(backend.basePath)) {
+            issues.push(`'${key}.basePath' is a duplicate: ${backend.basePath}`);
+        }
+        basePaths.add(backend.basePath);
+        validateContainer(backend.container, `${key}.container`, issues);
+        if (ports.has(backend.container.port)) {
+            issues.push(
+                `'${key}.container.port' is already used by another service: ${backend.container.port}`,
+            );
+        }
+        ports.add(backend.container.port);
+        backend.sidecars.forEach((sidecar, j) => {
+            for (const port of sidecar.ports) {
+                if (ports.has(port)) {
+                    issues.push(
+                        `'${key}.sidecars[${j}].ports' is already used by another service: ${port}`,
+                    );
+                }
+                ports.add(port);
+            }
+        });
+        if (!Number.isInteger(backend.desiredCount) || backend.desiredCount < 0) {
+            issues.push(
+                `'${key}.desiredCount' must be a non-negative integer: ${backend.desiredCount}`,
+            );
+        }
+        issues.push(...endpointIssues(backend.endpoints, `${key}.endpoints`));
+        return backend;
+    });
+}
+
+function validateImage(
+    input: Partial<ImageConfig>,
+    issues: string[],
+    key = "image",
+): ImageConfig {
+    const image: ImageConfig = { ...DEFAULT_IMAGE, ...input };
+    if (!IMAGE_SOURCES.includes(image.source)) {
+        issues.push(
+            `'${key}.source' must be one of ${
+                IMAGE_SOURCES.join(", ")
+            }: ${image.source}`,
+        );
+    }
+    if (
+        image.repositoryName !== undefined &&
+        !/^[a-z0-9]+(?:[._\/-][a-z0-9]+)*$/.test(image.repositoryName)
+    ) {
+        issues.push(
+            `'${key}.repositoryName' is not an ECR repository name: ${image.repositoryName}`,
+        );
+    }
+    if (
+        image.digest !== undefined &&
+        !/^sha256:[a-f0-9]{64}$/.test(image.digest)
+    ) {
+        issues.push(`'${key}.digest' must be "sha256:" and 64 hex digits: ${image.digest}`);
+    }
+    if (image.source === "asset") {
+        if (image.digest !== undefined || image.repositoryName !== undefined) {
+            issues.push(`'${key}.digest' and 'repositoryName' do not apply to asset images`);
+        }
+        const dockerfile = path.resolve(image.directory, image.dockerfile);
+        if (!fs.existsSync(dockerfile)) {
+            issues.push(`'${key}.dockerfile' not found: ${dockerfile}`);
+        }
+    }
+    if (!Number.isInteger(image.maxImageCount) || image.maxImageCount < 1) {
+        issues.push(
+            `'${key}.maxImageCount' must be a positive integer: ${image.maxImageCount}`,
+        );
+    }
+    if (
+        !Number.isInteger(image.untaggedExpiryDays) ||
+        image.untaggedExpiryDays < 1
+    ) {
+        issues.push(
+            `'${key}.untaggedExpiryDays' must be a positive integer: ${image.untaggedExpiryDays}`,
+        );
+    }
+    return image;
+}
+
+function validateAccessLogs(
+    input: Partial<AccessLogsConfig>,
+    issues: string[],
+): AccessLogsConfig {
+    const accessLogs: AccessLogsConfig = { ...DEFAULT_ACCESS_LOGS, ...input };
+    if (
+        accessLogs.bucketName !== undefined &&
+        !/^[a-z0-9][a-z0-9.-]{1,61}[a-z0-9]$/.test(accessLogs.bucketName)
+    ) {
+        issues.push(
+            `'accessLogs.bucketName' is not an S3 bucket name: ${accessLogs.bucketName}`,
+        );
+    }
+    // ELB appends AWSLogs/<account>/... itself
+    if (
+        accessLogs.prefix !== undefined &&
+        (accessLogs.prefix.startsWith("/") ||
+            accessLogs.prefix.endsWith("/") ||
+            accessLogs.prefix.includes("AWSLogs"))
+    ) {
+        issues.push(
+            `'accessLogs.prefix' must not start or end with '/' or contain 'AWSLogs': ${accessLogs.prefix}`,
+        );
+    }
+    if (
+        !accessLogs.enabled &&
+        (accessLogs.bucketName !== undefined || accessLogs.prefix !== undefined)
+    ) {
+        issues.push(`'accessLogs.bucketName' and 'prefix' require 'accessLogs.enabled'`);
+    }
+    return accessLogs;
+}
+
+function validateDeployment(
+    input: Partial<DeploymentConfig>,
+    container: ContainerConfig,
+    issues: string[],
+): DeploymentConfig {
+    const deployment: DeploymentConfig = { ...DEFAULT_DEPLOYMENT, ...input };
+    if (!["rolling", "blueGreen"].includes(deployment.mode)) {
+        issues.push(
+            `'deployment.mode' must be 'rolling' or 'blueGreen': ${deployment.mode}`,
+        );
+    }
+    if (!["allAtOnce", "linear", "canary"].includes(deployment.trafficShift)) {
+        issues.push(
+            `'deployment.trafficShift' must be 'allAtOnce', 'linear' or 'canary': ${deployment.trafficShift}`,
+        );
+    }
+    // Limits of CodeDeploy time-based traffic routing
+    const bounds: [keyof DeploymentConfig, number, number][] = [
+        ["shiftPercent", 1, 99],
+        ["shiftIntervalMinutes", 1, 2880],
+        ["testListenerPort", 1, 65535],
+        ["terminationWaitMinutes", 0, 2880],
+    ];
+    for (const [key, min, max] of bounds) {
+        const value = deployment[key];
+        if (
+            typeof value !== "number" ||
+            !Number.isInteger(value) ||
+            value < min ||
+            value > max
+        ) {
+            issues.push(
+                `'deployment.${key}' must be an integer from ${min} to ${max}: ${value}`,
+            );
+        }
+    }
+    if (deployment.testListenerPort === container.port) {
+        issues.push(
+            `'deployment.testListenerPort' must differ from 'container.port' (${container.port})`,
+        );
+    }
+    if (
+        !Array.isArray(deployment.validationPaths) ||
+        deployment.validationPaths.some((p) =>
+            typeof p !== "string" || !p.startsWith("/")
+        )
+    ) {
+        issues.push(`'deployment.validationPaths' must be paths starting with '/'`);
+    }
+    return deployment;
+}
+
+function validateMonitoring(
+    input: NonNullable<QuiltFargateConfigInput["monitoring"]>,
+    scaling: ScalingConfig | undefined,
+    issues: string[],
+): MonitoringConfig {
+    // Services that may scale to zero would otherwise alarm every night
+    const scalesToZero = scaling !== undefined && (
+        scaling.minTasks === 0 ||
+        (scaling.scheduled ?? []).some((schedule) => schedule.minTasks === 0)
+    );
+    const monitoring: MonitoringConfig = {
+        ...DEFAULT_MONITORING,
+        ...input,
+        thresholds: {
+            ...DEFAULT_MONITORING.thresholds,
+            minRunningTasks: scalesToZero
+                ? 0
+                : DEFAULT_MONITORING.thresholds.minRunningTasks,
+            ...input.thresholds,
+        },
+    };
+    for (const key of ["periodMinutes", "evaluationPeriods"] as const) {
+        const value = monitoring[key];
+        if (!Number.isInteger(value) || value < 1) {
+            issues.push(`'monitoring.${key}' must be a positive integer: ${value}`);
+        }
+    }
+    for (const [key, value] of Object.entries(monitoring.thresholds)) {
+        if (typeof value !== "number" || !(value >= 0)) {
+            issues.push(
+                `'monitoring.thresholds.${key}' must be a non-negative number: ${value}`,
+            );
+        }
+    }
+    for (const key of ["cpuPercent", "memoryPercent"] as const) {
+        if (monitoring.thresholds[key] > 100) {
+            issues.push(`'monitoring.thresholds.${key}' must be at most 100`);
+        }
+    }
+    return monitoring;
+}
+
+function validateErrorHandling(
+    input: NonNullable<QuiltFargateConfigInput["errorHandling"]>,
+    issues: string[],
+): ErrorHandlingConfig {
+    const errorHandling: ErrorHandlingConfig = {
+        ...DEFAULT_ERROR_HANDLING,
+        ...input,
+        taskRetry: {
+            ...DEFAULT_ERROR_HANDLING.taskRetry,
+            ...input.taskRetry,
+        },
+    };
+    const { taskRetry } = errorHandling;
+    // Limits from the Step Functions Retrier and EventBridge RetryPolicy
+    // and SQS MessageRetentionPeriod
+    const bounds: [string, unknown, number, number][] = [
+        ["taskRetry.maxAttempts", taskRetry.maxAttempts, 0, 99999999],
+        ["taskRetry.intervalSeconds", taskRetry.intervalSeconds, 1, 99999999],
+        ["targetRetryAttempts", errorHandling.targetRetryAttempts, 0, 185],
+        ["maxEventAgeHours", errorHandling.maxEventAgeHours, 1, 24],
+        [
+            "deadLetterRetentionDays",
+            errorHandling.deadLetterRetentionDays,
+            1,
+            14,
+        ],
+    ];
+    for (const [key, value, min, max] of bounds) {
+        if (
+            typeof value !== "number" ||
+            !Number.isInteger(value) ||
+            value < min ||
+            value > max
+        ) {
+            issues.push(
+                `'errorHandling.${key}' must be an integer from ${min} to ${max}: ${value}`,
+            );
+        }
+    }
+    if (typeof taskRetry.backoffRate !== "number" || taskRetry.backoffRate < 1) {
+        issues.push(
+            `'errorHandling.taskRetry.backoffRate' must be at least 1: ${taskRetry.backoffRate}`,
+        );
+    }
+    return errorHandling;
+}
+
+function validatePrivateApi(
+    input: Partial<PrivateApiConfig>,
+    issues: string[],
+): PrivateApiConfig {
+    const privateApi: PrivateApiConfig = {
+        certificateArn: "",
+        allowedCidrs: [],
+        ...input,
+    };
+    if (
+        !/^arn:aws[a-z-]*:acm:[a-z0-9-]+:\d{12}:certificate\/.+$/.test(
+            privateApi.certificateArn,
+        )
+    ) {
+        issues.push(
+            `'privateApi.certificateArn' must be an ACM certificate ARN: ${privateApi.certificateArn}`,
+        );
+    }
+    if (!Array.isArray(privateApi.allowedCidrs)) {
+        issues.push(
+            `'privateApi.allowedCidrs' must be a list of IPv4 CIDR ranges: ${privateApi.allowedCidrs}`,
+        );
+        return privateApi;
+    }
+    const invalid = privateApi.allowedCidrs.filter((cidr) =>
+        !/^\d{1,3}(\.\d{1,3}){3}\/\d{1,2}$/.test(cidr)
+    );
+    if (invalid.length > 0) {
+        issues.push(
+            `'privateApi.allowedCidrs' must be IPv4 CIDR ranges: ${invalid.join(", ")}`,
+        );
+    }
+    return privateApi;
+}
+
+function validateWaf(input: Partial<WafConfig>, issues: string[]): WafConfig {
+    const waf: WafConfig = { ...DEFAULT_WAF, ...input };
+    if (
+        !Array.isArray(waf.managedRuleGroups) ||
+        waf.managedRuleGroups.some((name) => !/^[A-Za-z0-9_-]+$/.test(name))
+    ) {
+        issues.push(
+            `'waf.managedRuleGroups' must be rule group names: ${waf.managedRuleGroups}`,
+        );
+    }
+    if (
+        waf.rateLimit !== undefined &&
+        !(Number.isInteger(waf.rateLimit) && waf.rateLimit >= 10 &&
+            waf.rateLimit <= 2000000000)
+    ) {
+        issues.push(
+            `'waf.rateLimit' must be an integer from 10 to 2000000000: ${waf.rateLimit}`,
+        );
+    }
+    for (const key of ["allowedIps", "blockedIps"] as const) {
+        if (!Array.isArray(waf[key])) {
+            issues.push(`'waf.${key}' must be a list of CIDR ranges: ${waf[key]}`);
+            continue;
+        }
+        const invalid = waf[key].filter((cidr) =>
+            !/^(\d{1,3}(\.\d{1,3}){3}\/\d{1,2}|[0-9a-fA-F:]+:[0-9a-fA-F:]*\/\d{1,3})$/
+                .test(cidr)
+        );
+        if (invalid.length > 0) {
+            issues.push(`'waf.${key}' must be CIDR ranges: ${invalid.join(", ")}`);
+        }
+    }
+    for (const key of ["allowedCountries", "blockedCountries"] as const) {
+        if (!Array.isArray(waf[key])) {
+            issues.push(
+                `'waf.${key}' must be a list of two-letter country codes: ${waf[key]}`,
+            );
+            continue;
+        }
+        const invalid = waf[key].filter((code) => !/^[A-Z]{2}$/.test(code));
+        if (invalid.length > 0) {
+            issues.push(
+                `'waf.${key}' must be two-letter country codes: ${invalid.join(", ")}`,
+            );
+        }
+    }
+    return waf;
+}
+
+function validateThrottling(
+    input: Partial<ThrottlingConfig>,
+    issues: string[],
+): ThrottlingConfig {
+    const throttling: ThrottlingConfig = { ...DEFAULT_THROTTLING, ...input };
+    const checkLimits = (where: string, limits: MethodThrottlingConfig) => {
+        for (const key of ["rateLimit", "burstLimit"] as const) {
+            const value = limits[key];
+            if (value !== undefined && !(typeof value === "number" && value >= 0)) {
+                issues.push(`'${where}.${key}' must not be negative: ${value}`);
+            }
+        }
+    };
+    checkLimits("throttling", throttling);
+    for (const [route, limits] of Object.entries(throttling.methods)) {
+        const where = `throttling.methods["${route}"]`;
+        const match = /^(GET|POST|PUT|PATCH|DELETE) (\/\S*)$/.exec(route);
+        if (!match) {
+            issues.push(`'${where}' must be keyed "<METHOD> /path"`);
+            continue;
+        }
+        checkLimits(where, limits);
+        const ttl = limits.cacheTtlSeconds;
+        if (ttl === undefined) {
+            continue;
+        }
+        if (match[1] !== "GET") {
+            issues.push(`'${where}.cacheTtlSeconds' only applies to GET`);
+        }
+        if (!Number.isInteger(ttl) || ttl < 0 || ttl > 3600) {
+            issues.push(
+                `'${where}.cacheTtlSeconds' must be an integer from 0 to 3600: ${ttl}`,
+            );
+        }
+    }
+    if (!CACHE_CLUSTER_SIZES.includes(throttling.cacheClusterSize)) {
+        issues.push(
+            `'throttling.cacheClusterSize' must be one of ${
+                CACHE_CLUSTER_SIZES.join(", ")
+            }: ${throttling.cacheClusterSize}`,
+        );
+    }
+    return throttling;
+}
+
+function validateApiAuth(
+    input: Partial<ApiAuthConfig>,
+    issues: string[],
+): ApiAuthConfig {
+    const apiAuth: ApiAuthConfig = {
+        mode: "none",
+        apiKeyNames: ["default"],
+        ...input,
+    };
+    if (!API_AUTH_MODES.includes(apiAuth.mode)) {
+        issues.push(
+            `'apiAuth.mode' must be one of ${
+                API_AUTH_MODES.join(", ")
+            }: ${apiAuth.mode}`,
+        );
+    }
+    if (apiAuth.mode === "apiKey") {
+        if (
+            !Array.isArray(apiAuth.apiKeyNames) ||
+            apiAuth.apiKeyNames.length === 0 ||
+            apiAuth.apiKeyNames.some((name) => !/^[A-Za-z0-9]+$/.test(name))
+        ) {
+            issues.push(
+                `'apiAuth.apiKeyNames' must be a non-empty list of alphanumeric names`,
+            );
+        }
+    } else if (apiAuth.usagePlan) {
+        issues.push(`'apiAuth.usagePlan' requires mode 'apiKey'`);
+    }
+    const plan = apiAuth.usagePlan;
+    if (plan) {
+        for (const key of ["rateLimit", "burstLimit", "quotaLimit"] as const) {
+            const value = plan[key];
+            if (value !== undefined && !(typeof value === "number" && value > 0)) {
+                issues.push(`'apiAuth.usagePlan.${key}' must be positive: ${value}`);
+            }
+        }
+        if (
+            plan.quotaPeriod !== undefined &&
+            !["DAY", "WEEK", "MONTH"].includes(plan.quotaPeriod)
+        ) {
+            issues.push(
+                `'apiAuth.usagePlan.quotaPeriod' must be DAY, WEEK or MONTH: ${plan.quotaPeriod}`,
+            );
+        }
+        if ((plan.quotaLimit === undefined) !== (plan.quotaPeriod === undefined)) {
+            issues.push(
+                `'apiAuth.usagePlan.quotaLimit' and 'quotaPeriod' must be set together`,
+            );
+        }
+    }
+    if (
+        apiAuth.mode !== "cognito" &&
+        (apiAuth.userPoolArn || apiAuth.authorizationScopes)
+    ) {
+        issues.push(
+            `'apiAuth.userPoolArn' and 'apiAuth.authorizationScopes' require mode 'cognito'`,
+        );
+    }
+    if (
+        apiAuth.userPoolArn &&
+        !/^arn:[^:]+:cognito-idp:[^:]+:\d{12}:userpool\/.+$/.test(
+            apiAuth.userPoolArn,
+        )
+    ) {
+        issues.push(
+            `'apiAuth.userPoolArn' is not a Cognito user pool ARN: ${apiAuth.userPoolArn}`,
+        );
+    }
+    return apiAuth;
+}
+
+function isPlainObject(value: unknown): value is { [key: string]: unknown } {
+    return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+// Objects merge key by key at every depth; arrays and scalars replace
+function deepMerge(
+    target: { [key: string]: unknown },
+    source: { [key: string]: unknown },
+): { [key: string]: unknown } {
+    const merged = { ...target };
+    for (const [key, value] of Object.entries(source)) {
+        if (value === undefined) {
+            continue;
+        }
+        const current = merged[key];
+        merged[key] = isPlainObject(current) && isPlainObject(value)
+            ? deepMerge(current, value)
+            : value;
+    }
+    return merged;
+}
+
+// Later sources win. Sections merge key by key at every depth and arrays
+// replace. Each secret reference replaces the one it overrides, since a
+// `secret` and a `parameter` cannot be combined.
+export function mergeConfig(
+    ...sources: QuiltFargateAppConfigInput[]
+): QuiltFargateAppConfigInput {
+    let merged: QuiltFargateAppConfigInput = {};
+    for (const source of sources) {
+        const { secrets, environments, ...rest } = source;
+        merged = deepMerge(merged, rest) as QuiltFargateAppConfigInput;
+        if (secrets) {
+            merged.secrets = { ...merged.secrets, ...secrets };
+        }
+        for (const [name, overrides] of Object.entries(environments ?? {})) {
+            merged.environments = {
+                ...merged.environments,
+                [name]: mergeConfig(
+                    merged.environments?.[name] ?? {},
+                    overrides,
+                ),
+            };
+        }
+    }
+    return merged;
+}
+
+// Checks a merged config and fills container defaults.
+// Collects every problem before throwing so one synth reports them all.
+export function validateConfig(
+    input: QuiltFargateConfigInput,
+): QuiltFargateConfig {
+    const issues: string[] = [];
+    const container: ContainerConfig = {
+        ...DEFAULT_CONTAINER_CONFIG,
+        healthCheckPort: input.container?.port ??
+            DEFAULT_CONTAINER_CONFIG.healthCheckPort,
+        ...input.container,
+    };
+
+    for (const key of ["email", "projectName", "zoneID", "zoneDomain"]) {
+        const value = (input as { [key: string]: unknown })[key];
+        if (typeof value !== "string" || value.trim() === "") {
+            issues.push(`'${key}' is required and must be a non-empty string`);
+        }
+    }
+    if (
+        typeof input.email === "string" &&
+        input.email !== "" &&
+        !/^[^@\s]+@[^@\s]+\.[^@\s]+$/.test(input.email)
+    ) {
+        issues.push(`'email' is not a valid address: ${input.email}`);
+    }
+    if (
+        typeof input.projectName === "string" &&
+        input.projectName !== "" &&
+        !/^[a-z0-9][a-z0-9-]*$/.test(input.projectName)
+    ) {
+        issues.push(
+            `'projectName' must be lowercase alphanumeric or '-': ${input.projectName}`,
+        );
+    }
+
+    const environmentName = input.environmentName;
+    const namePrefix = input.namePrefix ?? environmentName ?? "";
+    const stageName = input.stageName ?? environmentName ?? DEFAULT_STAGE_NAME;
+    const subdomain = input.subdomain ?? (environmentName
+        ? `${input.projectName}-${environmentName}`
+        : input.projectName);
+    const eventSource = input.eventSource ?? (namePrefix
+        ? `quilt.${input.projectName}.${namePrefix}`
+        : `quilt.${input.projectName}`);
+    const namePrefixPattern = new RegExp(
+        `^[a-z0-9](?:[a-z0-9-]{0,${MAX_NAME_PREFIX_LENGTH - 2}}[a-z0-9])?$`,
+    );
+    if (namePrefix !== "" && !namePrefixPattern.test(namePrefix)) {
+        issues.push(
+            `'namePrefix' must be at most ${MAX_NAME_PREFIX_LENGTH} lowercase alphanumeric or '-' characters: ${namePrefix}`,
+        );
+    }
+    if (!/^[A-Za-z0-9_-]+$/.test(stageName)) {
+        issues.push(
+            `'stageName' may only contain alphanumerics, '-' or '_': ${stageName}`,
+        );
+    }
+    if (
+        typeof subdomain === "string" &&
+        !/^[a-z0-9]([a-z0-9-]*[a-z0-9])?(\.[a-z0-9]([a-z0-9-]*[a-z0-9])?)*$/
+            .test(subdomain)
+    ) {
+        issues.push(`'subdomain' is not a valid DNS label: ${subdomain}`);
+    }
+
+    validateContainer(container, "container", issues);
+
+    const scaling = input.scaling
+        ? validateScaling(input.scaling, issues)
+        : undefined;
+    const apiAuth = validateApiAuth(input.apiAuth ?? {}, issues);
+    const secrets = input.secrets ?? {};
+    validateSecrets(secrets, issues);
+    const registries = input.registries ?? [];
+    validateRegistries(registries, issues);
+    const writable = registries.filter((r) => r.access !== "read");
+    const defaultRegistry = input.defaultRegistry ??
+        writable[0]?.name ?? DEFAULT_REGISTRY;
+    if (
+        registries.length > 0 &&
+        !writable.some((r) => r.name === defaultRegistry)
+    ) {
+        issues.push(
+            `'defaultRegistry' must name a read/write entry in 'registries': ${defaultRegistry}`,
+        );
+    }
+    const ingestion = validateIngestion(
+        input.ingestion ?? [],
+        registries,
+        issues,
+    );
+    const endpoints = input.endpoints ?? [];
+    issues.push(...endpointIssues(endpoints));
+    const sidecars = validateSidecars(
+        input.sidecars ?? [],
+        container,
+        "sidecars",
+        issues,
+    );
+    const deployment = validateDeployment(
+        input.deployment ?? {},
+        container,
+        issues,
+    );
+    const backends = validateBackends(
+        input.backends ?? [],
+        container,
+        [
+            ...sidecars.flatMap((sidecar) => sidecar.ports),
+            deployment.testListenerPort,
+        ],
+        issues,
+    );
+    // Backend rules must not replace another service's by id
+    const ids = new Set(
+        [...defaultEndpoints(defaultRegistry, []), ...endpoints].map(endpointId),
+    );
+    for (const backend of backends) {
+        for (const endpoint of backend.endpoints) {
+            const id = endpointId(endpoint);
+            if (ids.has(id)) {
+                issues.push(
+                    `'backends' endpoint id is already used by another service: ${id}`,
+                );
+            }
+            ids.add(id);
+        }
+    }
+    const packageWorkflow = input.packageWorkflow
+        ? validatePackageWorkflow(input.packageWorkflow, issues)
+        : undefined;
+    const eventBus = input.eventBus
+        ? validateEventBus(input.eventBus, issues)
+        : undefined;
+    const notifications = validateNotifications(
+        input.notifications ?? {},
+        issues,
+    );
+    const errorHandling = validateErrorHandling(
+        input.errorHandling ?? {},
+        issues,
+    );
+    const probes = validateProbes(input.probes ?? {}, issues);
+    const monitoring = validateMonitoring(
+        input.monitoring ?? {},
+        scaling,
+        issues,
+    );
+    const network = validateNetwork(input.network ?? {}, issues);
+    const accessLogs = validateAccessLogs(input.accessLogs ?? {}, issues);
+    const image = validateImage(input.image ?? {}, issues);
+    const telemetry = validateTelemetry(input.telemetry ?? {}, issues);
+    // The collector and log router images come from ECR Public, and their
+    // traces go to X-Ray; VPC endpoints reach neither
+    if (
+        network.vpcId === undefined &&
+        network.natGateways === 0 &&
+        (telemetry.traceCollector !== "none" ||
+            telemetry.logRouter === "firelens")
+    ) {
+        issues.push(
+            `'telemetry.traceCollector' and 'logRouter: firelens' need 'network.natGateways' of at least 1`,
+        );
+    }
+    const privateApi = input.privateApi
+        ? validatePrivateApi(input.privateApi, issues)
+        : undefined;
+    const waf = input.waf ? validateWaf(input.waf, issues) : undefined;
+    const throttling = validateThrottling(input.throttling ?? {}, issues);
+    // Throttled routes forward to the package engine, so they cannot sit
+    // under a backend's path
+    for (const route of Object.keys(throttling.methods)) {
+        const segment = route.split(" ")[1]?.split("/")[1];
+        if (backends.some((backend) => backend.basePath === segment)) {
+            issues.push(
+                `'throttling.methods["${route}"]' is under backend basePath '${segment}'`,
+            );
+        }
+    }
+    const redeployOnSecretChange = input.redeployOnSecretChange ?? false;
+    if (redeployOnSecretChange && Object.keys(secrets).length === 0) {
+        issues.push(`'redeployOnSecretChange' requires at least one entry in 'secrets'`);
+    }
+    // CodeDeploy owns deployments, so ECS cannot force a new one
+    if (redeployOnSecretChange && deployment.mode === "blueGreen") {
+        issues.push(`'redeployOnSecretChange' is not supported with blueGreen deployments`);
+    }
+
+    if (issues.length > 0) {
+        throw new ConfigValidationError(issues);
+    }
+    return {
+        email: input.email!,
+        projectName: input.projectName!,
+        zoneID: input.zoneID!,
+        zoneDomain: input.zoneDomain!,
+        environmentName,
+        stageName,
+        subdomain: subdomain!,
+        namePrefix,
+        eventSource,
+        container,
+        image,
+        sidecars,
+        telemetry,
+        scaling,
+        apiAuth,
+        privateApi,
+        waf,
+        throttling,
+        secrets,
+        redeployOnSecretChange,
+        registries,
+        backends,
+        defaultRegistry,
+        ingestion,
+        endpoints,
+        openApiSpec: input.openApiSpec,
+        packageWorkflow,
+        eventBus,
+        notifications,
+        errorHandling,
+        probes,
+        monitoring,
+        deployment,
+        network,
+        accessLogs,
+        strictIam: input.strictIam ?? false,
+    };
+}
+
+function readSources(
+    scope: Construct,
+    env: NodeJS.ProcessEnv,
+): QuiltFargateAppConfigInput[] {
+    const filePath = scope.node.tryGetContext(CONFIG_FILE_CONTEXT_KEY) ??
+        env[CONFIG_FILE_ENV_VAR];
+    const fromFile = filePath ? configFromFile(filePath) : {};
+    const context = scope.node.tryGetContext(CONFIG_CONTEXT_KEY);
+    const fromContext = typeof context === "string"
+        ? JSON.parse(context)
+        : context ?? {};
+    // An explicit file is more specific than the defaults in cdk.json
+    return [fromContext, fromFile];
+}
+
+export interface LoadConfigOptions {
+    // Entry under `environments` to apply on top of the shared settings
+    environment?: string;
+    env?: NodeJS.ProcessEnv;
+}
+
+// Names of the environments declared across file and context sources
+export function environmentNames(
+    scope: Construct,
+    env: NodeJS.ProcessEnv = process.env,
+): string[] {
+    const { environments } = mergeConfig(...readSources(scope, env));
+    return Object.keys(environments ?? {});
+}
+
+// Loads config with increasing precedence:
+//   1. CDK context under the `quilt` key (cdk.json or `-c`)
+//   2. JSON/YAML file from `-c quiltConfigFile=...` or $QUILT_CONFIG_FILE
+//   3. the named entry under `environments`, if any
+//   4. QUILT_* environment variables
+export function loadConfig(
+    scope: Construct,
+    options: LoadConfigOptions = {},
+): QuiltFargateConfig {
+    const env = options.env ?? process.env;
+    const { environments, ...shared } = mergeConfig(
+        ...readSources(scope, env),
+    );
+    const name = options.environment;
+    if (name !== undefined && !environments?.[name]) {
+        throw new Error(`Unknown environment '${name}' in Quilt config`);
+    }
+    const overrides = name !== undefined
+        ? { ...environments![name], environmentName: name }
+        : {};
+    return validateConfig(mergeConfig(shared, overrides, configFromEnv(env)));
+}
@@ -0,0 +1,295 @@
+import * as fs from "fs";
+import * as path from "path";
+import * as YAML from "yaml";
+
+import {
+    CREATE_PACKAGE_FIELDS,
+    DetailSchema,
+    QuiltDetailType,
+    detailPath,
+    detailQueryParams,
+    detailSchema,
+} from "./quilt-events";
+
+export type EndpointMethod = "GET" | "POST" | "PUT" | "PATCH" | "DELETE";
+
+// One service endpoint, invoked by a `quilt.<project>` event of `detailType`
+export interface EndpointDefinition {
+    // Unique name used for the rule and state machine; defaults to detailType
+    id?: string;
+    detailType: string;
+    method: EndpointMethod;
+    // Service path; each `{name}` segment is filled from `pathParams` in order
+    path: string;
+    // JSONPath into the event for each path segment, e.g. "$.detail.bucket_name"
+    pathParams?: string[];
+    // Query string parameter => JSONPath into the event
+    queryParams?: { [name: string]: string };
+    // Extra EventBridge pattern on the event detail, as plain JSON
+    detailPattern?: { [key: string]: unknown };
+    // Also build a state machine that calls the endpoint and notifies the topic
+    stateMachine?: boolean;
+}
+
+export const CREATE_PACKAGE_DETAIL_TYPE: QuiltDetailType = "CreatePackage";
+
+const METHODS: EndpointMethod[] = ["GET", "POST", "PUT", "PATCH", "DELETE"];
+
+const CREATE_PACKAGE_QUERY = detailQueryParams(CREATE_PACKAGE_FIELDS);
+
+// Built-in endpoints; an entry with the same id in config replaces one
+export function defaultEndpoints(
+    defaultRegistry: string,
+    writableRegistries: string[],
+): EndpointDefinition[] {
+    return [
+        // Events without a bucket_name go to the default registry
+        {
+            id: "CreatePackage",
+            detailType: CREATE_PACKAGE_DETAIL_TYPE,
+            method: "POST",
+            path: `/registries/${defaultRegistry}/packages`,
+            queryParams: CREATE_PACKAGE_QUERY,
+            detailPattern: { bucket_name: [{ exists: false }] },
+        },
+        // Otherwise route by bucket_name, limited to known registries if any
+        {
+            id: "CreatePackageInBucket",
+            detailType: CREATE_PACKAGE_DETAIL_TYPE,
+            method: "POST",
+            path: "/registries/{bucket_name}/packages",
+            pathParams: [detailPath("bucket_name")],
+            queryParams: CREATE_PACKAGE_QUERY,
+            detailPattern: {
+                bucket_name: writableRegistries.length > 0
+                    ? writableRegistries
+                    : [{ exists: true }],
+            },
+        },
+        { detailType: "GetInfo", method: "GET", path: "/info", stateMachine: true },
+        { detailType: "GetHealth", method: "GET", path: "/health", stateMachine: true },
+        {
+            detailType: "TestApiKey",
+            method: "GET",
+            path: "/test_api_key",
+            stateMachine: true,
+        },
+    ];
+}
+
+export function endpointId(endpoint: EndpointDefinition): string {
+    return endpoint.id ?? endpoint.detailType;
+}
+
+// Returns a description of every problem, empty when the list is valid
+export function endpointIssues(
+    endpoints: EndpointDefinition[],
+    key = "endpoints",
+): string[] {
+    const issues: string[] = [];
+    const ids = new Set<string>();
+    endpoints.forEach((endpoint, i) => {
+        const id = endpointId(endpoint);
+        const where = `'${key}[${i}]' (${id})`;
+        if (!/^[A-Za-z0-9]+$/.test(id ?? "")) {
+            issues.push(`${where} id/detailType must be alphanumeric`);
+        } else if (ids.has(id)) {
+            issues.push(`${where} is a duplicate id`);
+        }
+        ids.add(id);
+        if (!METHODS.includes(endpoint.method)) {
+            issues.push(
+                `${where}.method must be one of ${
+                    METHODS.join(", ")
+                }: ${endpoint.method}`,
+            );
+        }
+        if (typeof endpoint.path !== "string" || !endpoint.path.startsWith("/")) {
+            issues.push(`${where}.path must start with '/': ${endpoint.path}`);
+            return;
+        }
+        // Count the number of path parameters in the path and check that
+        // the number of provided values matches
+        const pathParamCount = (endpoint.path.match(/{[^}]+}/g) || []).length;
+        const pathParams = endpoint.pathParams ?? [];
+        if (pathParamCount !== pathParams.length) {
+            issues.push(
+                `${where} path '${endpoint.path}' has ${pathParamCount} parameters but ${pathParams.length} values were provided`,
+            );
+        }
+        const mappings = [
+            ...pathParams,
+            ...Object.values(endpoint.queryParams ?? {}),
+        ];
+        for (const mapping of mappings) {
+            if (typeof mapping !== "string" || !mapping.startsWith("$.")) {
+                issues.push(`${where} mapping must be a JSONPath: ${mapping}`);
+            }
+        }
+        if (endpoint.stateMachine && mappings.length > 0) {
+            issues.push(
+                `${where}.stateMachine needs an endpoint without parameters`,
+            );
+        }
+    });
+    return issues;
+}
+
+// Reads endpoints from an OpenAPI 3 document. Only operations tagged with
+// `x-quilt-event` are exposed; the value is the detail type, or an object
+// with `detailType` and `stateMachine`. Path and query parameters map to
+// same-named fields of the event detail.
+export function endpointsFromOpenApi(spec: unknown): EndpointDefinition[] {
+    const endpoints: EndpointDefinition[] = [];
+    const paths = isObject(spec) && isObject(spec.paths) ? spec.paths : {};
+    for (const [apiPath, pathItem] of Object.entries(paths)) {
+        if (!isObject(pathItem)) {
+            continue;
+        }
+        for (const method of METHODS) {
+            const operation = pathItem[method.toLowerCase()];
+            const event = isObject(operation)
+                ? operation["x-quilt-event"]
+                : undefined;
+            if (!isObject(operation) || !event) {
+                continue;
+            }
+            const parameters = [
+                ...parameterList(pathItem.parameters),
+                ...parameterList(operation.parameters),
+            ];
+            // Path parameters must follow their order in the path
+            const pathNames = (apiPath.match(/{[^}]+}/g) || []).map((name) =>
+                name.slice(1, -1)
+            );
+            const queryParams: { [name: string]: string } = {};
+            for (const parameter of parameters) {
+                if (parameter.in === "query") {
+                    queryParams[parameter.name] = `$.detail.${parameter.name}`;
+                }
+            }
+            endpoints.push({
+                detailType: isObject(event)
+                    ? event.detailType as string
+                    : event as string,
+                method,
+                path: apiPath,
+                pathParams: pathNames.length > 0
+                    ? pathNames.map((name) => `$.detail.${name}`)
+                    : undefined,
+                queryParams: Object.keys(queryParams).length > 0
+                    ? queryParams
+                    : undefined,
+                stateMachine: isObject(event)
+                    ? event.stateMachine as boolean | undefined
+                    : undefined,
+            });
+        }
+    }
+    return endpoints;
+}
+
+// Path-item or operation parameters that name a location
+function parameterList(value: unknown): { name: string; in: string }[] {
+    return Array.isArray(value)
+        ? value.filter((parameter): parameter is { name: string; in: string } =>
+            isObject(parameter) &&
+            typeof parameter.name === "string" &&
+            typeof parameter.in === "string"
+        )
+        : [];
+}
+
+export function endpointsFromOpenApiFile(filePath: string): EndpointDefinition[] {
+    const resolved = path.resolve(filePath);
+    if (!fs.existsSync(resolved)) {
+        throw new Error(`OpenAPI spec not found: ${resolved}`);
+    }
+    const text = fs.readFileSync(resolved, "utf8");
+    const ext = path.extname(resolved).toLowerCase();
+    return endpointsFromOpenApi(
+        ext === ".yaml" || ext === ".yml" ? YAML.parse(text) : JSON.parse(text),
+    );
+}
+
+const CREATE_PACKAGE_DETAIL = detailSchema(CREATE_PACKAGE_FIELDS);
+
+// Detail schema per detail type, from the `$.detail.<field>` mappings of
+// its endpoints. A field is required when every endpoint of the type
+// fills a path segment with it.
+export function endpointDetailSchemas(
+    endpoints: EndpointDefinition[],
+): Map<string, DetailSchema> {
+    const schemas = new Map<string, DetailSchema>();
+    for (const endpoint of endpoints) {
+        const pathFields = detailFields(endpoint.pathParams ?? []);
+        const fields = [
+            ...pathFields,
+            ...detailFields(Object.values(endpoint.queryParams ?? {})),
+        ];
+        const existing = schemas.get(endpoint.detailType);
+        const properties = { ...existing?.properties };
+        for (const field of fields) {
+            properties[field] ??= { type: "string" };
+        }
+        const required = existing
+            ? existing.required.filter((field) => pathFields.includes(field))
+            : pathFields;
+        schemas.set(endpoint.detailType, {
+            type: "object",
+            properties,
+            required: [...new Set(required)],
+        });
+    }
+    const createPackage = schemas.get(CREATE_PACKAGE_DETAIL_TYPE);
+    if (createPackage) {
+        schemas.set(CREATE_PACKAGE_DETAIL_TYPE, {
+            type: "object",
+            properties: {
+                ...createPackage.properties,
+                ...CREATE_PACKAGE_DETAIL.properties,
+            },
+            required: CREATE_PACKAGE_DETAIL.required,
+        });
+    }
+    return schemas;
+}
+
+// Top-level detail fields named by `$.detail.<field>` JSONPaths
+function detailFields(mappings: string[]): string[] {
+    return mappings
+        .map((mapping) => /^\$\.detail\.([^.[]+)/.exec(mapping)?.[1])
+        .filter((field): field is string => field !== undefined);
+}
+
+// A backend service's endpoints, with paths under its base path
+export function mountEndpoints(
+    basePath: string,
+    endpoints: EndpointDefinition[],
+): EndpointDefinition[] {
+    return endpoints.map((endpoint) => ({
+        ...endpoint,
+        path: `/${basePath}${endpoint.path}`,
+    }));
+}
+
+// Layers OpenAPI and configured endpoints over the defaults, by id
+export function resolveEndpoints(
+    defaults: EndpointDefinition[],
+    ...overrides: EndpointDefinition[][]
+): EndpointDefinition[] {
+    const byId = new Map<string, EndpointDefinition>();
+    for (const endpoint of [...defaults, ...overrides.flat()]) {
+        byId.set(endpointId(endpoint), endpoint);
+    }
+    const endpoints = [...byId.values()];
+    const issues = endpointIssues(endpoints);
+    if (issues.length > 0) {
+        throw new Error(`Invalid endpoints:\n  - ${issues.join("\n  - ")}`);
+    }
+    return endpoints;
+}
+
+function isObject(value: unknown): value is { [key: string]: unknown } {
+    return typeof value === "object" && value !== null && !Array.isArray(value);
+}
@@ -0,0 +1,174 @@
+// Synth-time check for over-broad IAM in identity and resource policies
+import * as cdk from "aws-cdk-lib";
+import * as apigateway from "aws-cdk-lib/aws-apigateway";
+import * as events from "aws-cdk-lib/aws-events";
+import * as iam from "aws-cdk-lib/aws-iam";
+import * as s3 from "aws-cdk-lib/aws-s3";
+import * as sns from "aws-cdk-lib/aws-sns";
+import * as sqs from "aws-cdk-lib/aws-sqs";
+
+// AWS managed policies that grant whole services or accounts
+const BROAD_MANAGED_POLICY = /(FullAccess|^AdministratorAccess|^PowerUserAccess)$/;
+
+type Template = { Resources?: { [logicalId: string]: unknown } };
+
+function isObject(value: unknown): value is { [key: string]: unknown } {
+    return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function asArray<T>(value: T | T[] | undefined): T[] {
+    if (value === undefined) {
+        return [];
+    }
+    return Array.isArray(value) ? value : [value];
+}
+
+// A wildcard action is "*" or a whole service, e.g. "s3:*"; narrower
+// patterns such as "s3:Get*" are allowed
+function isWildcardAction(action: unknown): boolean {
+    return typeof action === "string" && /^(\*|[\w-]+:\*)$/.test(action);
+}
+
+// Managed policy ARNs are usually rendered as Fn::Join or Fn::Sub
+function managedPolicyName(arn: unknown): string | undefined {
+    const text = JSON.stringify(arn);
+    const match = /:iam::aws:policy\/(?:[\w-]+\/)*([\w-]+)/.exec(text);
+    return match?.[1];
+}
+
+function documentIssues(
+    where: string,
+    document: unknown,
+): string[] {
+    const issues: string[] = [];
+    const statements = isObject(document) ? asArray(document.Statement) : [];
+    for (const statement of statements) {
+        if (!isObject(statement) || statement.Effect !== "Allow") {
+            continue;
+        }
+        for (const action of asArray(statement.Action)) {
+            if (isWildcardAction(action)) {
+                issues.push(`${where} allows wildcard action '${action}'`);
+            }
+        }
+        if (statement.NotAction !== undefined) {
+            issues.push(`${where} allows every action outside NotAction`);
+        }
+    }
+    return issues;
+}
+
+// Returns one message per wildcard action or broad managed policy found in
+// IAM roles, users, groups and policies, or in resource policies
+export function iamPolicyIssues(template: Template): string[] {
+    const issues: string[] = [];
+    for (const [id, resource] of Object.entries(template.Resources ?? {})) {
+        if (!isObject(resource)) {
+            continue;
+        }
+        const properties = isObject(resource.Properties)
+            ? resource.Properties
+            : {};
+        switch (resource.Type) {
+            case "AWS::IAM::Policy":
+            case "AWS::IAM::ManagedPolicy":
+            case "AWS::S3::BucketPolicy":
+            case "AWS::SQS::QueuePolicy":
+            case "AWS::SNS::TopicPolicy":
+                issues.push(...documentIssues(id, properties.PolicyDocument));
+                break;
+            case "AWS::ApiGateway::RestApi":
+                issues.push(...documentIssues(id, properties.Policy));
+                break;
+            // An event bus policy holds a single statement
+            case "AWS::Events::EventBusPolicy":
+                issues.push(
+                    ...documentIssues(id, { Statement: properties.Statement }),
+                );
+                break;
+            case "AWS::IAM::Role":
+            case "AWS::IAM::User":
+            case "AWS::IAM::Group":
+                for (const policy of asArray(properties.Policies)) {
+                    if (isObject(policy)) {
+                        issues.push(
+                            ...documentIssues(
+                                `${id} (${policy.PolicyName})`,
+                                policy.PolicyDocument,
+                            ),
+                        );
+                    }
+                }
+                for (const arn of asArray(properties.ManagedPolicyArns)) {
+                    const name = managedPolicyName(arn);
+                    if (name && BROAD_MANAGED_POLICY.test(name)) {
+                        issues.push(`${id} attaches broad managed policy ${name}`);
+                    }
+                }
+                break;
+        }
+    }
+    return issues;
+}
+
+// The policy properties of an L1 resource, as its template entry renders them
+function policyProperties(
+    resource: cdk.CfnResource,
+): { [property: string]: unknown } | undefined {
+    if (
+        resource instanceof iam.CfnPolicy ||
+        resource instanceof iam.CfnManagedPolicy ||
+        resource instanceof s3.CfnBucketPolicy ||
+        resource instanceof sqs.CfnQueuePolicy ||
+        resource instanceof sns.CfnTopicPolicy
+    ) {
+        return { PolicyDocument: resource.policyDocument };
+    }
+    if (resource instanceof apigateway.CfnRestApi) {
+        return { Policy: resource.policy };
+    }
+    if (resource instanceof events.CfnEventBusPolicy) {
+        return { Statement: resource.statement };
+    }
+    if (
+        resource instanceof iam.CfnRole ||
+        resource instanceof iam.CfnUser ||
+        resource instanceof iam.CfnGroup
+    ) {
+        const policies = cdk.Stack.of(resource).resolve(resource.policies);
+        return {
+            Policies: asArray<unknown>(policies).map((policy) =>
+                isObject(policy)
+                    ? {
+                        PolicyName: policy.policyName,
+                        PolicyDocument: policy.policyDocument,
+                    }
+                    : policy
+            ),
+            ManagedPolicyArns: resource.managedPolicyArns,
+        };
+    }
+    return undefined;
+}
+
+// Runs iamPolicyIssues over the stack's L1 resources at validation time,
+// after every policy statement has been added
+export function stackPolicyIssues(stack: cdk.Stack): string[] {
+    const resources: { [logicalId: string]: unknown } = {};
+    for (const construct of stack.node.findAll()) {
+        if (
+            !cdk.CfnResource.isCfnResource(construct) ||
+            cdk.Stack.of(construct) !== stack
+        ) {
+            continue;
+        }
+        const properties = policyProperties(construct);
+        if (properties) {
+            resources[stack.getLogicalId(construct)] = {
+                Type: construct.cfnResourceType,
+                Properties: stack.resolve(properties),
+            };
+        }
+    }
+    return iamPolicyIssues({ Resources: resources });
+}
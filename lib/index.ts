@@ -0,0 +1,10 @@
+export * from "./cdk-quilt-fargate-stack";
+export * from "./config";
+export * from "./endpoints";
+export * from "./iam-policy-check";
+export * from "./notifications";
+export * from "./quilt-api-front-door";
+export * from "./quilt-event-integration";
+export * from "./quilt-events";
+export * from "./quilt-fargate-service";
+export * from "./quilt-monitoring";
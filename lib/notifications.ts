@@ -0,0 +1,81 @@
+import * as sns from "aws-cdk-lib/aws-sns";
+import * as tasks from "aws-cdk-lib/aws-stepfunctions-tasks";
+
+import {
+    NotificationFilter,
+    NotificationSeverity,
+    NotificationsConfig,
+    SubscriberConfig,
+} from "./config";
+
+// The configured subscribers, plus `email` with no filter unless it is
+// listed among them
+export function notificationSubscribers(
+    email: string,
+    notifications: NotificationsConfig,
+): SubscriberConfig[] {
+    const listed = notifications.subscribers.some((subscriber) =>
+        subscriber.type === "email" && subscriber.endpoint === email
+    );
+    return listed
+        ? notifications.subscribers
+        : [{ type: "email", endpoint: email }, ...notifications.subscribers];
+}
+
+// Attributes published with every notification, so subscribers can filter
+// on them. Values may be JSONPath strings resolved by the state machine.
+export interface NotificationAttributes {
+    detailType: string;
+    severity: NotificationSeverity | string;
+    status: string;
+    // Omitted when the call failed before returning a response
+    statusCode?: string;
+}
+
+export function notificationAttributes(
+    attributes: NotificationAttributes,
+): { [name: string]: tasks.MessageAttribute } {
+    return {
+        detail_type: { value: attributes.detailType },
+        severity: { value: attributes.severity },
+        status: { value: attributes.status },
+        ...(attributes.statusCode
+            ? {
+                status_code: {
+                    value: attributes.statusCode,
+                    dataType: tasks.MessageAttributeDataType.NUMBER,
+                },
+            }
+            : {}),
+    };
+}
+
+// SNS filter policy for a subscriber; undefined when it gets everything
+export function notificationFilterPolicy(
+    filter: NotificationFilter = {},
+): { [attribute: string]: sns.SubscriptionFilter } | undefined {
+    const policy: { [attribute: string]: sns.SubscriptionFilter } = {};
+    const allow = (attribute: string, values?: string[]) => {
+        if (values && values.length > 0) {
+            policy[attribute] = sns.SubscriptionFilter.stringFilter({
+                allowlist: values,
+            });
+        }
+    };
+    allow("detail_type", filter.detailTypes);
+    allow("severity", filter.severities);
+    allow("status", filter.statuses);
+    if (filter.statusCodes && filter.statusCodes.length > 0) {
+        policy.status_code = new sns.SubscriptionFilter(
+            filter.statusCodes.map((code) => {
+                if (typeof code === "number") {
+                    return { numeric: ["=", code] };
+                }
+                const start = Number(code[0]) * 100;
+                return { numeric: [">=", start, "<", start + 100] };
+            }),
+        );
+    }
+    return Object.keys(policy).length > 0 ? policy : undefined;
+}
+
@@ -0,0 +1,746 @@
+import * as acm from "aws-cdk-lib/aws-certificatemanager";
+import * as apigateway from "aws-cdk-lib/aws-apigateway";
+import * as cdk from "aws-cdk-lib";
+import * as cognito from "aws-cdk-lib/aws-cognito";
+import * as ec2 from "aws-cdk-lib/aws-ec2";
+import * as elbv2 from "aws-cdk-lib/aws-elasticloadbalancingv2";
+import * as iam from "aws-cdk-lib/aws-iam";
+import * as logs from "aws-cdk-lib/aws-logs";
+import * as route53 from "aws-cdk-lib/aws-route53";
+import * as route53Targets from "aws-cdk-lib/aws-route53-targets";
+import * as wafv2 from "aws-cdk-lib/aws-wafv2";
+
+import { Construct } from "constructs";
+import {
+    ApiAuthConfig,
+    DEFAULT_CONTAINER_CONFIG,
+    DEFAULT_STAGE_NAME,
+    DEFAULT_THROTTLING,
+    PrivateApiConfig,
+    ThrottlingConfig,
+    WafConfig,
+} from "./config";
+import { physicalName } from "./shared";
+
+// Resource that mirrors the API with IAM auth for EventBridge/Step Functions
+const INTERNAL_RESOURCE = "_internal";
+
+export interface QuiltApiFrontDoorProps {
+    // Prefix for physical resource names
+    namePrefix?: string;
+    // NLB in front of the service, reached through a VPC link
+    loadBalancer: elbv2.INetworkLoadBalancer;
+    port: number;
+    // Hosted zone that gets `subdomain` as an alias for the API
+    zoneID: string;
+    zoneDomain: string;
+    subdomain: string;
+    stageName?: string;
+    apiAuth: ApiAuthConfig;
+    logRetention?: logs.RetentionDays;
+    // Omit to leave the stage without a web ACL
+    waf?: WafConfig;
+    throttling?: ThrottlingConfig;
+    // Serve the API only inside `vpc`, through an execute-api endpoint
+    privateApi?: PrivateApiConfig;
+    vpc?: ec2.IVpc;
+}
+
+// REST API on a custom domain that proxies every path to the service
+export class QuiltApiFrontDoor extends Construct {
+    readonly api: apigateway.RestApi;
+
+    // API for EventBridge and Step Functions, which cannot reach private
+    // APIs: `api` itself, or in private mode a regional API that accepts
+    // only SigV4 requests from this account
+    readonly integrationApi: apigateway.RestApi;
+
+    // Private mode: the execute-api endpoint clients connect through
+    readonly vpcEndpoint?: ec2.InterfaceVpcEndpoint;
+
+    readonly apiLogGroup: logs.LogGroup;
+
+    // Custom domain of the API, e.g. "quilt.example.com"
+    readonly domainName: string;
+
+    readonly apiAuth: ApiAuthConfig;
+
+    readonly webAcl?: wafv2.CfnWebACL;
+
+    private readonly props: QuiltApiFrontDoorProps;
+
+    private readonly vpcLink: apigateway.VpcLink;
+
+    // Authorization of client-facing methods
+    private readonly methodOptions: apigateway.MethodOptions;
+
+    constructor(scope: Construct, id: string, props: QuiltApiFrontDoorProps) {
+        super(scope, id);
+        this.props = props;
+        this.apiAuth = props.apiAuth;
+        this.domainName = `${props.subdomain}.${props.zoneDomain}`;
+
+        const hostedZone = route53.HostedZone.fromHostedZoneAttributes(
+            this,
+            "CdkQuiltHostedZone",
+            {
+                hostedZoneId: props.zoneID,
+                zoneName: props.zoneDomain,
+            },
+        );
+        const certificate = props.privateApi
+            ? acm.Certificate.fromCertificateArn(
+                this,
+                "ApiGatewayCertificate",
+                props.privateApi.certificateArn,
+            )
+            : new acm.Certificate(
+                this,
+                "ApiGatewayCertificate",
+                {
+                    domainName: this.domainName,
+                    validation: acm.CertificateValidation.fromDns(hostedZone),
+                },
+            );
+        // Create log group with consistent naming
+        this.apiLogGroup = new logs.LogGroup(this, "CdkQuiltApiGatewayLogs", {
+            retention: props.logRetention ??
+                DEFAULT_CONTAINER_CONFIG.logRetention,
+            removalPolicy: cdk.RemovalPolicy.DESTROY,
+        });
+        const vpcLink = new apigateway.VpcLink(this, "ServiceVpcLink", {
+            targets: [props.loadBalancer],
+        });
+        this.vpcLink = vpcLink;
+        this.methodOptions = this.createMethodOptions();
+        if (props.privateApi) {
+            if (!props.vpc) {
+                throw new Error(`QuiltApiFrontDoor needs a vpc for privateApi`);
+            }
+            this.vpcEndpoint = this.createExecuteApiEndpoint(
+                props.vpc,
+                props.privateApi,
+            );
+        }
+        this.api = this.createApiGateway(certificate, vpcLink);
+        this.integrationApi = props.privateApi
+            ? this.createIntegrationApi(vpcLink)
+            : this.api;
+        if (props.waf) {
+            this.webAcl = this.createWebAcl(props.waf);
+        }
+
+        if (this.vpcEndpoint) {
+            this.createPrivateDomain(certificate, hostedZone, this.vpcEndpoint);
+            return;
+        }
+        new route53.ARecord(this, "CdkQuiltAliasRecord", {
+            zone: hostedZone,
+            recordName: this.domainName,
+            target: route53.RecordTarget.fromAlias(
+                new route53Targets.ApiGateway(this.api),
+            ),
+        });
+    }
+
+    // True when internal callers need the SigV4 mirror under INTERNAL_RESOURCE
+    public usesInternalRoutes(): boolean {
+        return !this.props.privateApi &&
+            (this.apiAuth.mode === "apiKey" || this.apiAuth.mode === "cognito");
+    }
+
+    // True when EventBridge and Step Functions sign their requests
+    public signsInternalCalls(): boolean {
+        return this.props.privateApi !== undefined ||
+            this.apiAuth.mode !== "none";
+    }
+
+    // Mounts another service, listening on `port` of the same NLB, at
+    // /<basePath> of the API, its SigV4 mirror and the integration API
+    public addBackend(basePath: string, port: number): void {
+        const nlb = this.props.loadBalancer;
+        const iamOnly = { authorizationType: apigateway.AuthorizationType.IAM };
+        this.addProxyMethods(
+            this.api.root.resourceForPath(basePath),
+            this.vpcLink,
+            nlb,
+            this.methodOptions,
+            port,
+        );
+        if (this.usesInternalRoutes()) {
+            this.addProxyMethods(
+                this.api.root.resourceForPath(`${INTERNAL_RESOURCE}/${basePath}`),
+                this.vpcLink,
+                nlb,
+                iamOnly,
+                port,
+            );
+        }
+        if (this.integrationApi !== this.api) {
+            this.addProxyMethods(
+                this.integrationApi.root.resourceForPath(basePath),
+                this.vpcLink,
+                nlb,
+                iamOnly,
+                port,
+            );
+        }
+    }
+
+    // Path that EventBridge and Step Functions should call for a service path
+    public internalPath(path: string): string {
+        return this.usesInternalRoutes() ? `/${INTERNAL_RESOURCE}${path}` : path;
+    }
+
+    private physicalName(name: string): string {
+        return physicalName(this.props.namePrefix ?? "", name);
+    }
+
+    private createApiGateway(
+        certificate: acm.ICertificate,
+        vpcLink: apigateway.VpcLink,
+    ): apigateway.RestApi {
+        const nlb = this.props.loadBalancer;
+        const throttling = this.props.throttling ?? DEFAULT_THROTTLING;
+        const routes = Object.entries(throttling.methods);
+        const caching = routes.some(([, { cacheTtlSeconds }]) =>
+            (cacheTtlSeconds ?? 0) > 0
+        );
+
+        const api = new apigateway.RestApi(this, "CdkQuiltApiGateway", {
+            restApiName: this.physicalName("CdkQuiltService"),
+            description: "API Gateway for the Quilt Package Engine service",
+            // Private APIs get their custom domain in createPrivateDomain
+            domainName: this.vpcEndpoint
+                ? undefined
+                : {
+                    domainName: this.domainName,
+                    certificate: certificate,
+                },
+            endpointTypes: this.vpcEndpoint
+                ? [apigateway.EndpointType.PRIVATE]
+                : undefined,
+            policy: this.vpcEndpoint
+                ? vpcEndpointPolicy(this.vpcEndpoint)
+                : undefined,
+            defaultCorsPreflightOptions: {
+                allowOrigins: this.apiAuth.corsAllowOrigins ??
+                    apigateway.Cors.ALL_ORIGINS,
+                allowMethods: apigateway.Cors.ALL_METHODS,
+            },
+            deployOptions: {
+                stageName: this.props.stageName ?? DEFAULT_STAGE_NAME,
+                accessLogDestination: new apigateway.LogGroupLogDestination(
+                    this.apiLogGroup,
+                ),
+                accessLogFormat: apigateway.AccessLogFormat.custom(
+                    JSON.stringify({
+                        requestId: "$context.requestId",
+                        ip: "$context.identity.sourceIp",
+                        caller: "$context.identity.caller",
+                        user: "$context.identity.user",
+                        requestTime: "$context.requestTime",
+                        httpMethod: "$context.httpMethod",
+                        resourcePath: "$context.resourcePath",
+                        status: "$context.status",
+                        protocol: "$context.protocol",
+                        responseLength: "$context.responseLength",
+                        errorMessage: "$context.error.message",
+                        integrationError: "$context.integration.error",
+                        integrationStatus: "$context.integration.status",
+                        integrationLatency: "$context.integration.latency",
+                        integrationRequestId: "$context.integration.requestId",
+                    }),
+                ),
+                loggingLevel: apigateway.MethodLoggingLevel.INFO,
+                dataTraceEnabled: true,
+                tracingEnabled: true,
+                metricsEnabled: true,
+                throttlingRateLimit: throttling.rateLimit,
+                throttlingBurstLimit: throttling.burstLimit,
+                cacheClusterEnabled: caching || undefined,
+                cacheClusterSize: caching
+                    ? throttling.cacheClusterSize
+                    : undefined,
+                methodOptions: Object.fromEntries(
+                    routes.map(([route, limits]) => {
+                        const [method, path] = route.split(" ");
+                        const cacheTtl = limits.cacheTtlSeconds ?? 0;
+                        return [`${path}/${method}`, {
+                            throttlingRateLimit: limits.rateLimit,
+                            throttlingBurstLimit: limits.burstLimit,
+                            cachingEnabled: cacheTtl > 0 || undefined,
+                            cacheTtl: cacheTtl > 0
+                                ? cdk.Duration.seconds(cacheTtl)
+                                : undefined,
+                        }];
+                    }),
+                ),
+            },
+        });
+
+        const methodOptions = this.methodOptions;
+        this.addProxyMethods(api.root, vpcLink, nlb, methodOptions);
+        // Method settings apply to resources, which {proxy+} hides
+        for (const [route, limits] of routes) {
+            const [method, path] = route.split(" ");
+            this.addRouteMethod(
+                api,
+                method,
+                path,
+                (limits.cacheTtlSeconds ?? 0) > 0,
+                vpcLink,
+                nlb,
+                methodOptions,
+            );
+        }
+        // EventBridge and Step Functions cannot present API keys or Cognito
+        // tokens, so they call a mirror of the routes that accepts SigV4
+        if (this.usesInternalRoutes()) {
+            this.addProxyMethods(
+                api.root.addResource(INTERNAL_RESOURCE),
+                vpcLink,
+                nlb,
+                { authorizationType: apigateway.AuthorizationType.IAM },
+            );
+        }
+        if (this.apiAuth.mode === "apiKey") {
+            this.createUsagePlan(api);
+        }
+
+        return api;
+    }
+
+    // Forwards the resource and everything below it to the service root
+    private addProxyMethods(
+        resource: apigateway.IResource,
+        vpcLink: apigateway.VpcLink,
+        nlb: elbv2.INetworkLoadBalancer,
+        methodOptions: apigateway.MethodOptions,
+        port = this.props.port,
+    ): void {
+        // Add a proxy resource to catch all paths
+        const proxyResource = resource.addResource("{proxy+}");
+        proxyResource.addMethod(
+            "ANY",
+            new apigateway.Integration({
+                type: apigateway.IntegrationType.HTTP_PROXY,
+                integrationHttpMethod: "ANY",
+                options: {
+                    connectionType: apigateway.ConnectionType.VPC_LINK,
+                    vpcLink: vpcLink,
+                    requestParameters: {
+                        "integration.request.path.proxy":
+                            "method.request.path.proxy",
+                    },
+                },
+                uri: `http://${nlb.loadBalancerDnsName}:${port}/{proxy}`,
+            }),
+            {
+                ...methodOptions,
+                requestParameters: {
+                    "method.request.path.proxy": true,
+                },
+            },
+        );
+
+        // Also add a method to the root path
+        resource.addMethod(
+            "ANY",
+            new apigateway.Integration({
+                type: apigateway.IntegrationType.HTTP_PROXY,
+                integrationHttpMethod: "ANY",
+                options: {
+                    connectionType: apigateway.ConnectionType.VPC_LINK,
+                    vpcLink: vpcLink,
+                },
+                uri: `http://${nlb.loadBalancerDnsName}:${port}/`,
+            }),
+            methodOptions,
+        );
+    }
+
+    // Interface endpoint for execute-api. Private DNS stays off so other
+    // workloads in the VPC can still call public APIs; clients use the
+    // private custom domain instead.
+    private createExecuteApiEndpoint(
+        vpc: ec2.IVpc,
+        privateApi: PrivateApiConfig,
+    ): ec2.InterfaceVpcEndpoint {
+        const endpoint = new ec2.InterfaceVpcEndpoint(
+            this,
+            "ExecuteApiEndpoint",
+            {
+                vpc,
+                service: ec2.InterfaceVpcEndpointAwsService.APIGATEWAY,
+                privateDnsEnabled: false,
+            },
+        );
+        for (const cidr of privateApi.allowedCidrs) {
+            endpoint.connections.allowFrom(
+                ec2.Peer.ipv4(cidr),
+                ec2.Port.tcp(443),
+            );
+        }
+        new cdk.CfnOutput(this, "ExecuteApiEndpointId", {
+            value: endpoint.vpcEndpointId,
+        });
+        return endpoint;
+    }
+
+    // Private custom domain served through the endpoint, with an alias to
+    // the endpoint in the private hosted zone
+    private createPrivateDomain(
+        certificate: acm.ICertificate,
+        hostedZone: route53.IHostedZone,
+        endpoint: ec2.InterfaceVpcEndpoint,
+    ): void {
+        const domain = new apigateway.CfnDomainNameV2(
+            this,
+            "CdkQuiltPrivateDomain",
+            {
+                domainName: this.domainName,
+                certificateArn: certificate.certificateArn,
+                endpointConfiguration: { types: ["PRIVATE"] },
+                securityPolicy: "TLS_1_2",
+                policy: vpcEndpointPolicy(endpoint),
+            },
+        );
+        new apigateway.CfnDomainNameAccessAssociation(
+            this,
+            "CdkQuiltPrivateDomainAccess",
+            {
+                accessAssociationSource: endpoint.vpcEndpointId,
+                accessAssociationSourceType: "VPCE",
+                domainNameArn: domain.attrDomainNameArn,
+            },
+        );
+        new apigateway.CfnBasePathMappingV2(this, "CdkQuiltPrivateDomainMap", {
+            domainNameArn: domain.attrDomainNameArn,
+            restApiId: this.api.restApiId,
+            stage: this.api.deploymentStage.stageName,
+        });
+        new route53.ARecord(this, "CdkQuiltAliasRecord", {
+            zone: hostedZone,
+            recordName: this.domainName,
+            target: route53.RecordTarget.fromAlias(
+                new route53Targets.InterfaceVpcEndpointTarget(endpoint),
+            ),
+        });
+    }
+
+    // Regional API with SigV4 on every route, limited to this account's
+    // principals by its resource policy. It is reachable from the internet,
+    // so it gets the same rate limits (without caching) and web ACL
+    private createIntegrationApi(
+        vpcLink: apigateway.VpcLink,
+    ): apigateway.RestApi {
+        const nlb = this.props.loadBalancer;
+        const iamOnly = { authorizationType: apigateway.AuthorizationType.IAM };
+        const throttling = this.props.throttling ?? DEFAULT_THROTTLING;
+        const routes = Object.entries(throttling.methods);
+        const api = new apigateway.RestApi(this, "CdkQuiltIntegrationApi", {
+            restApiName: this.physicalName("CdkQuiltIntegration"),
+            description: "SigV4-only API for EventBridge and Step Functions",
+            policy: new iam.PolicyDocument({
+                statements: [
+                    new iam.PolicyStatement({
+                        actions: ["execute-api:Invoke"],
+                        principals: [new iam.AccountRootPrincipal()],
+                        resources: ["execute-api:/*"],
+                    }),
+                ],
+            }),
+            deployOptions: {
+                stageName: this.props.stageName ?? DEFAULT_STAGE_NAME,
+                accessLogDestination: new apigateway.LogGroupLogDestination(
+                    this.apiLogGroup,
+                ),
+                loggingLevel: apigateway.MethodLoggingLevel.INFO,
+                tracingEnabled: true,
+                metricsEnabled: true,
+                throttlingRateLimit: throttling.rateLimit,
+                throttlingBurstLimit: throttling.burstLimit,
+                methodOptions: Object.fromEntries(
+                    routes.map(([route, limits]) => {
+                        const [method, path] = route.split(" ");
+                        return [`${path}/${method}`, {
+                            throttlingRateLimit: limits.rateLimit,
+                            throttlingBurstLimit: limits.burstLimit,
+                        }];
+                    }),
+                ),
+            },
+        });
+        this.addProxyMethods(api.root, vpcLink, nlb, iamOnly);
+        for (const [route] of routes) {
+            const [method, path] = route.split(" ");
+            this.addRouteMethod(api, method, path, false, vpcLink, nlb, iamOnly);
+        }
+        return api;
+    }
+
+    // A method for one service path, with its path parameters (the cache
+    // key when `cached`)
+    private addRouteMethod(
+        api: apigateway.RestApi,
+        method: string,
+        path: string,
+        cached: boolean,
+        vpcLink: apigateway.VpcLink,
+        nlb: elbv2.INetworkLoadBalancer,
+        methodOptions: apigateway.MethodOptions,
+    ): void {
+        const names = (path.match(/{[^}]+}/g) ?? []).map((name) =>
+            name.slice(1, -1)
+        );
+        const parameters = names.map((name) => `method.request.path.${name}`);
+        api.root.resourceForPath(path).addMethod(
+            method,
+            new apigateway.Integration({
+                type: apigateway.IntegrationType.HTTP_PROXY,
+                integrationHttpMethod: method,
+                options: {
+                    connectionType: apigateway.ConnectionType.VPC_LINK,
+                    vpcLink: vpcLink,
+                    requestParameters: Object.fromEntries(
+                        names.map((name) => [
+                            `integration.request.path.${name}`,
+                            `method.request.path.${name}`,
+                        ]),
+                    ),
+                    cacheKeyParameters: cached ? parameters : undefined,
+                },
+                uri: `http://${nlb.loadBalancerDnsName}:${this.props.port}${path}`,
+            }),
+            {
+                ...methodOptions,
+                requestParameters: Object.fromEntries(
+                    parameters.map((parameter) => [parameter, true]),
+                ),
+            },
+        );
+    }
+
+    // Rules in priority order: allowed IPs, blocked IPs, countries, the
+    // per-IP rate limit, then the managed rule groups
+    private createWebAcl(waf: WafConfig): wafv2.CfnWebACL {
+        const rules: wafv2.CfnWebACL.RuleProperty[] = [];
+        const addRule = (
+            name: string,
+            statement: wafv2.CfnWebACL.StatementProperty,
+            action: "allow" | "block",
+        ) => {
+            rules.push({
+                name,
+                priority: rules.length,
+                statement,
+                action: { [action]: {} },
+                visibilityConfig: visibilityConfig(name),
+            });
+        };
+        if (waf.allowedIps.length > 0) {
+            addRule(
+                "AllowedIps",
+                this.ipSetStatement("AllowedIps", waf.allowedIps),
+                "allow",
+            );
+        }
+        if (waf.blockedIps.length > 0) {
+            addRule(
+                "BlockedIps",
+                this.ipSetStatement("BlockedIps", waf.blockedIps),
+                "block",
+            );
+        }
+        if (waf.allowedCountries.length > 0) {
+            const countryCodes = waf.allowedCountries;
+            addRule("AllowedCountries", {
+                notStatement: {
+                    statement: { geoMatchStatement: { countryCodes } },
+                },
+            }, "block");
+        }
+        if (waf.blockedCountries.length > 0) {
+            addRule("BlockedCountries", {
+                geoMatchStatement: { countryCodes: waf.blockedCountries },
+            }, "block");
+        }
+        if (waf.rateLimit !== undefined) {
+            addRule("RateLimit", {
+                rateBasedStatement: {
+                    limit: waf.rateLimit,
+                    aggregateKeyType: "IP",
+                },
+            }, "block");
+        }
+        for (const name of waf.managedRuleGroups) {
+            rules.push({
+                name,
+                priority: rules.length,
+                statement: {
+                    managedRuleGroupStatement: { vendorName: "AWS", name },
+                },
+                overrideAction: { none: {} },
+                visibilityConfig: visibilityConfig(name),
+            });
+        }
+
+        const webAcl = new wafv2.CfnWebACL(this, "CdkQuiltWebAcl", {
+            name: this.physicalName("CdkQuiltWebAcl"),
+            scope: "REGIONAL",
+            defaultAction: { allow: {} },
+            rules,
+            visibilityConfig: visibilityConfig("CdkQuiltWebAcl"),
+        });
+        new wafv2.CfnWebACLAssociation(this, "CdkQuiltWebAclAssociation", {
+            resourceArn: this.api.deploymentStage.stageArn,
+            webAclArn: webAcl.attrArn,
+        });
+        if (this.integrationApi !== this.api) {
+            new wafv2.CfnWebACLAssociation(
+                this,
+                "CdkQuiltIntegrationWebAclAssociation",
+                {
+                    resourceArn: this.integrationApi.deploymentStage.stageArn,
+                    webAclArn: webAcl.attrArn,
+                },
+            );
+        }
+        new cdk.CfnOutput(this, "WebAclArn", { value: webAcl.attrArn });
+        return webAcl;
+    }
+
+    // An IP set per address version, matched if either contains the caller
+    private ipSetStatement(
+        id: string,
+        cidrs: string[],
+    ): wafv2.CfnWebACL.StatementProperty {
+        const statements = (["IPV4", "IPV6"] as const)
+            .map((version) => {
+                const addresses = cidrs.filter((cidr) =>
+                    cidr.includes(":") === (version === "IPV6")
+                );
+                if (addresses.length === 0) {
+                    return undefined;
+                }
+                const ipSet = new wafv2.CfnIPSet(this, `${id}${version}`, {
+                    scope: "REGIONAL",
+                    ipAddressVersion: version,
+                    addresses,
+                });
+                return { ipSetReferenceStatement: { arn: ipSet.attrArn } };
+            })
+            .filter((statement) => statement !== undefined);
+        return statements.length === 1
+            ? statements[0]
+            : { orStatement: { statements } };
+    }
+
+    private createMethodOptions(): apigateway.MethodOptions {
+        switch (this.apiAuth.mode) {
+            case "apiKey":
+                return { apiKeyRequired: true };
+            case "iam":
+                return {
+                    authorizationType: apigateway.AuthorizationType.IAM,
+                };
+            case "cognito": {
+                const userPool = this.apiAuth.userPoolArn
+                    ? cognito.UserPool.fromUserPoolArn(
+                        this,
+                        "CdkQuiltUserPool",
+                        this.apiAuth.userPoolArn,
+                    )
+                    : this.createUserPool();
+                const authorizer = new apigateway.CognitoUserPoolsAuthorizer(
+                    this,
+                    "CdkQuiltAuthorizer",
+                    { cognitoUserPools: [userPool] },
+                );
+                return {
+                    authorizer,
+                    authorizationType: apigateway.AuthorizationType.COGNITO,
+                    authorizationScopes: this.apiAuth.authorizationScopes,
+                };
+            }
+            default:
+                return {};
+        }
+    }
+
+    private createUserPool(): cognito.UserPool {
+        const userPool = new cognito.UserPool(this, "CdkQuiltUserPool", {
+            userPoolName: this.physicalName("CdkQuiltUserPool"),
+            selfSignUpEnabled: false,
+            signInAliases: { email: true },
+        });
+        const client = userPool.addClient("CdkQuiltUserPoolClient", {
+            authFlows: { userSrp: true },
+        });
+        new cdk.CfnOutput(this, "UserPoolId", { value: userPool.userPoolId });
+        new cdk.CfnOutput(this, "UserPoolClientId", {
+            value: client.userPoolClientId,
+        });
+        return userPool;
+    }
+
+    private createUsagePlan(api: apigateway.RestApi): apigateway.UsagePlan {
+        const { rateLimit, burstLimit, quotaLimit, quotaPeriod } =
+            this.apiAuth.usagePlan ?? {};
+        const plan = api.addUsagePlan("CdkQuiltUsagePlan", {
+            name: this.physicalName("CdkQuiltUsagePlan"),
+            throttle: rateLimit !== undefined || burstLimit !== undefined
+                ? { rateLimit, burstLimit }
+                : undefined,
+            quota: quotaLimit !== undefined && quotaPeriod !== undefined
+                ? { limit: quotaLimit, period: apigateway.Period[quotaPeriod] }
+                : undefined,
+        });
+        plan.addApiStage({ stage: api.deploymentStage });
+        for (const keyName of this.apiAuth.apiKeyNames) {
+            const apiKey = api.addApiKey(`CdkQuiltApiKey${keyName}`, {
+                apiKeyName: this.physicalName(`CdkQuilt-${keyName}`),
+            });
+            plan.addApiKey(apiKey);
+            new cdk.CfnOutput(this, `ApiKeyId${keyName}`, {
+                value: apiKey.keyId,
+            });
+        }
+        return plan;
+    }
+}
+
+function visibilityConfig(
+    metricName: string,
+): wafv2.CfnWebACL.VisibilityConfigProperty {
+    return {
+        cloudWatchMetricsEnabled: true,
+        metricName,
+        sampledRequestsEnabled: true,
+    };
+}
+
+// Lets anyone call through the endpoint, and no one otherwise
+function vpcEndpointPolicy(
+    endpoint: ec2.IInterfaceVpcEndpoint,
+): iam.PolicyDocument {
+    return new iam.PolicyDocument({
+        statements: [
+            new iam.PolicyStatement({
+                actions: ["execute-api:Invoke"],
+                principals: [new iam.AnyPrincipal()],
+                resources: ["execute-api:/*"],
+            }),
+            new iam.PolicyStatement({
+                effect: iam.Effect.DENY,
+                actions: ["execute-api:Invoke"],
+                principals: [new iam.AnyPrincipal()],
+                resources: ["execute-api:/*"],
+                conditions: {
+                    StringNotEquals: { "aws:SourceVpce": endpoint.vpcEndpointId },
+                },
+            }),
+        ],
+    });
+}
@@ -0,0 +1,1593 @@
+import * as apigateway from "aws-cdk-lib/aws-apigateway";
+import * as cdk from "aws-cdk-lib";
+import * as chatbot from "aws-cdk-lib/aws-chatbot";
+import * as dynamodb from "aws-cdk-lib/aws-dynamodb";
+import * as events from "aws-cdk-lib/aws-events";
+import * as eventschemas from "aws-cdk-lib/aws-eventschemas";
+import * as iam from "aws-cdk-lib/aws-iam";
+import * as lambda from "aws-cdk-lib/aws-lambda";
+import * as s3 from "aws-cdk-lib/aws-s3";
+import * as scheduler from "aws-cdk-lib/aws-scheduler";
+import * as sfn from "aws-cdk-lib/aws-stepfunctions";
+import * as sns from "aws-cdk-lib/aws-sns";
+import * as sns_subscriptions from "aws-cdk-lib/aws-sns-subscriptions";
+import * as sqs from "aws-cdk-lib/aws-sqs";
+import * as targets from "aws-cdk-lib/aws-events-targets";
+import * as tasks from "aws-cdk-lib/aws-stepfunctions-tasks";
+
+import { Construct } from "constructs";
+import {
+    CREATE_PACKAGE_DETAIL_TYPE,
+    EndpointDefinition,
+    endpointDetailSchemas,
+    endpointId,
+} from "./endpoints";
+import {
+    DEFAULT_ERROR_HANDLING,
+    ErrorHandlingConfig,
+    EventBusConfig,
+    IngestionConfig,
+    NotificationSeverity,
+    PackageWorkflowConfig,
+    ProbeConfig,
+    SubscriberConfig,
+} from "./config";
+import {
+    NotificationAttributes,
+    notificationAttributes,
+    notificationFilterPolicy,
+} from "./notifications";
+import { QuiltApiFrontDoor } from "./quilt-api-front-door";
+import { CREATE_PACKAGE_FIELDS, CreatePackageDetail } from "./quilt-events";
+import { addTaskRetry, physicalName, targetProps } from "./shared";
+
+// Republishes notifications as AWS Chatbot custom notifications
+const CHAT_FORWARDER_CODE = `
+const { SNSClient, PublishCommand } = require("@aws-sdk/client-sns");
+const sns = new SNSClient({});
+
+const ICONS = { INFO: ":information_source:", WARNING: ":warning:", ERROR: ":rotating_light:" };
+
+exports.handler = async (event) => {
+    for (const record of event.Records) {
+        const { Subject, Message, MessageAttributes } = record.Sns;
+        const attribute = (name) => (MessageAttributes[name] || {}).Value;
+        let fields;
+        try {
+            fields = JSON.parse(Message);
+        } catch (err) {
+            fields = { message: Message };
+        }
+        const title = fields.summary || Subject || "Quilt notification";
+        const description = Object.entries(fields)
+            .filter(([key]) => key !== "summary")
+            .map(([key, value]) => "*" + key + "*: " +
+                (typeof value === "string" ? value : JSON.stringify(value)))
+            .join("\\n");
+        await sns.send(new PublishCommand({
+            TopicArn: process.env.CHAT_TOPIC_ARN,
+            Message: JSON.stringify({
+                version: "1.0",
+                source: "custom",
+                content: {
+                    textType: "client-markdown",
+                    title: [ICONS[attribute("severity")], title].filter(Boolean).join(" "),
+                    description,
+                },
+                metadata: { summary: title, eventType: attribute("detail_type") },
+            }),
+        }));
+    }
+};
+`;
+
+export interface QuiltEventIntegrationProps {
+    // Prefix for physical resource names
+    namePrefix?: string;
+    frontDoor: QuiltApiFrontDoor;
+    // Source of the events the rules match, e.g. "quilt.package-engine"
+    eventSource: string;
+    // Subscribed to the notification topic
+    subscribers: SubscriberConfig[];
+    endpoints: EndpointDefinition[];
+    errorHandling?: ErrorHandlingConfig;
+    // Omit to match events on the default bus
+    eventBus?: EventBusConfig;
+    // Omit to post CreatePackage events straight to the API
+    packageWorkflow?: PackageWorkflowConfig;
+    // Registry for CreatePackage events without a bucket_name
+    defaultRegistry: string;
+    // Role the service uses to answer package workflow callbacks
+    serviceRole?: iam.IRole;
+    // Scheduled probes, keyed by the id of an endpoint with a state machine
+    probes?: { [endpointId: string]: ProbeConfig };
+    ingestion?: IngestionConfig[];
+    // Buckets watched by `ingestion`, by name
+    registryBuckets?: Map<string, s3.IBucket>;
+    // X-Ray traces for the state machines, continued by the API and service
+    tracing?: boolean;
+}
+
+// Bridges `eventSource` events on the default or a dedicated bus to the API: a rule per
+// endpoint, state machines that call endpoints and notify the topic, and a
+// dead-letter queue with a redrive state machine
+export class QuiltEventIntegration extends Construct {
+    readonly eventSource: string;
+
+    readonly topic: sns.Topic;
+
+    // Receives events that every EventBridge target failed to deliver
+    readonly deadLetterQueue: sqs.Queue;
+
+    readonly rules: events.Rule[];
+
+    // Dedicated bus, when configured; the rules use the default bus otherwise
+    readonly eventBus?: events.EventBus;
+
+    readonly archive?: events.Archive;
+
+    // Role for EventBridge/Step Functions to invoke the API
+    readonly invokeApiRole: iam.Role;
+
+    readonly packageWorkflow?: sfn.StateMachine;
+
+    readonly redriveStateMachine: sfn.StateMachine;
+
+    private readonly props: QuiltEventIntegrationProps;
+
+    private readonly frontDoor: QuiltApiFrontDoor;
+
+    private readonly errorHandling: ErrorHandlingConfig;
+
+    constructor(
+        scope: Construct,
+        id: string,
+        props: QuiltEventIntegrationProps,
+    ) {
+        super(scope, id);
+        this.props = props;
+        this.frontDoor = props.frontDoor;
+        this.eventSource = props.eventSource;
+        this.errorHandling = props.errorHandling ?? DEFAULT_ERROR_HANDLING;
+        const api = props.frontDoor.integrationApi;
+
+        this.topic = this.createTopic(props.subscribers);
+        this.deadLetterQueue = this.createDeadLetterQueue();
+        if (props.eventBus) {
+            this.eventBus = this.createEventBus(props.eventBus);
+            this.archive = this.createArchive(
+                this.eventBus,
+                props.eventBus.archiveRetentionDays,
+            );
+            if (props.eventBus.schemas) {
+                this.createSchemas(props.endpoints);
+            }
+        }
+        this.packageWorkflow = props.packageWorkflow
+            ? this.createPackageWorkflow(
+                api,
+                this.topic,
+                props.packageWorkflow,
+                props.defaultRegistry,
+                props.serviceRole,
+            )
+            : undefined;
+        this.rules = this.createEventBridgeRules(
+            api,
+            props.endpoints,
+            this.packageWorkflow,
+        );
+        this.invokeApiRole = this.createInvokeApiRole(
+            api,
+            props.endpoints,
+            this.topic,
+        );
+        if (props.ingestion && props.ingestion.length > 0) {
+            this.createIngestion(
+                props.ingestion,
+                props.registryBuckets ?? new Map(),
+                this.topic,
+            );
+        }
+        // Create state machines to call each endpoint and notify topic
+        this.createStateMachines(
+            api,
+            this.topic,
+            props.endpoints.filter((endpoint) => endpoint.stateMachine),
+            props.probes ?? {},
+        );
+        this.redriveStateMachine = this.createRedriveStateMachine();
+    }
+
+    // Retry and dead-letter settings shared by every EventBridge target
+    public targetProps(): targets.TargetBaseProps {
+        return targetProps(this.errorHandling, this.deadLetterQueue);
+    }
+
+    private physicalName(name: string): string {
+        return physicalName(this.props.namePrefix ?? "", name);
+    }
+
+    private createTopic(subscribers: SubscriberConfig[]): sns.Topic {
+        const topicName = this.physicalName("CdkQuiltFargateTopic");
+        const topic = new sns.Topic(this, "CdkQuiltFargateTopic", {
+            topicName,
+            displayName: topicName,
+            fifo: false,
+        });
+        for (const subscriber of subscribers) {
+            this.addSubscriber(topic, subscriber);
+        }
+        return topic;
+    }
+
+    private addSubscriber(topic: sns.Topic, subscriber: SubscriberConfig): void {
+        const filterPolicy = notificationFilterPolicy(subscriber.filter);
+        const endpoint = subscriber.endpoint!;
+        switch (subscriber.type) {
+            case "email":
+                topic.addSubscription(
+                    new sns_subscriptions.EmailSubscription(endpoint, {
+                        filterPolicy,
+                    }),
+                );
+                break;
+            case "sqs":
+                // Queues owned elsewhere need a policy that lets the topic send
+                topic.addSubscription(
+                    new sns_subscriptions.SqsSubscription(
+                        sqs.Queue.fromQueueArn(
+                            this,
+                            `CdkQuiltSubscriber${endpoint.split(":").pop()}`,
+                            endpoint,
+                        ),
+                        { filterPolicy, rawMessageDelivery: true },
+                    ),
+                );
+                break;
+            case "https":
+                topic.addSubscription(
+                    new sns_subscriptions.UrlSubscription(endpoint, {
+                        filterPolicy,
+                        protocol: sns.SubscriptionProtocol.HTTPS,
+                    }),
+                );
+                break;
+            case "slack":
+                this.addSlackChannel(topic, subscriber, filterPolicy);
+                break;
+        }
+    }
+
+    // Chatbot cannot filter or format messages, so a function subscribed
+    // with the filter reformats them onto a topic only the channel reads
+    private addSlackChannel(
+        topic: sns.Topic,
+        subscriber: SubscriberConfig,
+        filterPolicy?: { [attribute: string]: sns.SubscriptionFilter },
+    ): void {
+        const id = `CdkQuiltSlack${subscriber.slackChannelId}`;
+        const chatTopic = new sns.Topic(this, `${id}Topic`, {
+            topicName: this.physicalName(`${id}Topic`),
+        });
+        const forwarder = new lambda.Function(this, `${id}Forwarder`, {
+            runtime: lambda.Runtime.NODEJS_20_X,
+            handler: "index.handler",
+            code: lambda.Code.fromInline(CHAT_FORWARDER_CODE),
+            timeout: cdk.Duration.seconds(30),
+            environment: { CHAT_TOPIC_ARN: chatTopic.topicArn },
+        });
+        chatTopic.grantPublish(forwarder);
+        topic.addSubscription(
+            new sns_subscriptions.LambdaSubscription(forwarder, { filterPolicy }),
+        );
+        new chatbot.SlackChannelConfiguration(this, id, {
+            slackChannelConfigurationName: this.physicalName(id),
+            slackWorkspaceId: subscriber.slackWorkspaceId!,
+            slackChannelId: subscriber.slackChannelId!,
+            notificationTopics: [chatTopic],
+        });
+    }
+
+    // Other accounts publish through the resource policy; principals in
+    // this account need events:PutEvents on the bus in their own policies.
+    // Listing roles denies every other principal, this construct's roles
+    // excepted.
+    private createEventBus(config: EventBusConfig): events.EventBus {
+        const busId = "CdkQuiltEventBus";
+        const bus = new events.EventBus(this, busId, {
+            eventBusName: this.physicalName(busId),
+        });
+        if (config.publisherAccounts.length > 0) {
+            bus.addToResourcePolicy(
+                new iam.PolicyStatement({
+                    sid: "PublisherAccounts",
+                    actions: ["events:PutEvents"],
+                    principals: config.publisherAccounts.map((account) =>
+                        new iam.AccountPrincipal(account)
+                    ),
+                    resources: [bus.eventBusArn],
+                }),
+            );
+        }
+        if (config.publisherRoleArns.length > 0) {
+            bus.addToResourcePolicy(
+                new iam.PolicyStatement({
+                    sid: "PublisherRoles",
+                    actions: ["events:PutEvents"],
+                    principals: config.publisherRoleArns.map((arn) =>
+                        new iam.ArnPrincipal(arn)
+                    ),
+                    resources: [bus.eventBusArn],
+                }),
+            );
+            // Identity policies would otherwise let any principal in this
+            // account publish; this construct's roles are read at synth time
+            bus.addToResourcePolicy(
+                new iam.PolicyStatement({
+                    sid: "OnlyPublisherRoles",
+                    effect: iam.Effect.DENY,
+                    actions: ["events:PutEvents"],
+                    principals: [new iam.AnyPrincipal()],
+                    resources: [bus.eventBusArn],
+                    conditions: {
+                        ArnNotLike: {
+                            "aws:PrincipalArn": cdk.Lazy.list({
+                                produce: () => [
+                                    ...config.publisherRoleArns,
+                                    ...this.ownRoleArns(),
+                                ],
+                            }),
+                        },
+                    },
+                }),
+            );
+        }
+        new cdk.CfnOutput(this, "EventBusName", { value: bus.eventBusName });
+        new cdk.CfnOutput(this, "EventBusArn", { value: bus.eventBusArn });
+        return bus;
+    }
+
+    private ownRoleArns(): string[] {
+        return this.node.findAll()
+            .filter((construct): construct is iam.Role =>
+                construct instanceof iam.Role
+            )
+            .map((role) => role.roleArn);
+    }
+
+    // Keeps this source's events so they can be replayed onto the bus
+    private createArchive(
+        bus: events.EventBus,
+        retentionDays: number,
+    ): events.Archive {
+        const archive = bus.archive("CdkQuiltEventArchive", {
+            archiveName: this.physicalName("CdkQuiltEventArchive"),
+            description: `Events from ${this.eventSource}`,
+            eventPattern: { source: [this.eventSource] },
+            retention: retentionDays > 0
+                ? cdk.Duration.days(retentionDays)
+                : undefined,
+        });
+        new cdk.CfnOutput(this, "EventArchiveArn", {
+            value: archive.archiveArn,
+        });
+        return archive;
+    }
+
+    // Registers an OpenAPI 3 schema for each detail type the rules match
+    private createSchemas(endpoints: EndpointDefinition[]): void {
+        const registry = new eventschemas.CfnRegistry(
+            this,
+            "CdkQuiltSchemaRegistry",
+            {
+                registryName: this.physicalName("CdkQuiltEvents"),
+                description: `Schemas of ${this.eventSource} events`,
+            },
+        );
+        for (
+            const [detailType, detail] of endpointDetailSchemas(endpoints)
+        ) {
+            const name = detailType.replace(/[^A-Za-z0-9]/g, "");
+            new eventschemas.CfnSchema(this, `CdkQuilt${name}Schema`, {
+                registryName: registry.attrRegistryName,
+                schemaName: `${this.eventSource}@${name}`,
+                type: "OpenApi3",
+                content: JSON.stringify({
+                    openapi: "3.0.0",
+                    info: { version: "1.0.0", title: detailType },
+                    paths: {},
+                    components: {
+                        schemas: {
+                            AWSEvent: {
+                                type: "object",
+                                required: ["detail-type", "source", "detail"],
+                                "x-amazon-events-detail-type": detailType,
+                                "x-amazon-events-source": this.eventSource,
+                                properties: {
+                                    "detail-type": { type: "string" },
+                                    source: { type: "string" },
+                                    detail: {
+                                        $ref: `#/components/schemas/${name}`,
+                                    },
+                                },
+                            },
+                            [name]: detail,
+                        },
+                    },
+                }),
+            });
+        }
+    }
+
+    private createDeadLetterQueue(): sqs.Queue {
+        const queueId = "CdkQuiltEventsDeadLetterQueue";
+        return new sqs.Queue(this, queueId, {
+            queueName: this.physicalName(queueId),
+            retentionPeriod: cdk.Duration.days(
+                this.errorHandling.deadLetterRetentionDays,
+            ),
+            encryption: sqs.QueueEncryption.SQS_MANAGED,
+            enforceSSL: true,
+        });
+    }
+
+    private addTaskRetry(
+        task: sfn.TaskStateBase | sfn.CustomState,
+        errors?: string[],
+    ): void {
+        addTaskRetry(task, this.errorHandling.taskRetry, errors);
+    }
+
+    // Publishes the error caught into `$.error` to the topic, then fails
+    private createFailureNotification(
+        id: string,
+        topic: sns.ITopic,
+        details: { [key: string]: unknown },
+    ): sfn.IChainable {
+        const notify = new tasks.SnsPublish(this, `${id}Notify`, {
+            topic,
+            subject: `Quilt ${id} failed`,
+            message: sfn.TaskInput.fromObject({
+                summary: sfn.JsonPath.format(
+                    `Quilt ${id} failed: {}`,
+                    sfn.JsonPath.stringAt("$.error.Error"),
+                ),
+                status: "FAILED",
+                ...details,
+                error: sfn.JsonPath.stringAt("$.error.Error"),
+                cause: sfn.JsonPath.stringAt("$.error.Cause"),
+                execution: sfn.JsonPath.executionId,
+            }),
+            messageAttributes: notificationAttributes({
+                detailType: id,
+                severity: "ERROR",
+                status: "FAILED",
+            }),
+            resultPath: sfn.JsonPath.DISCARD,
+        });
+        return notify.next(new sfn.Fail(this, `${id}Failed`, {
+            error: `${id}Failed`,
+        }));
+    }
+
+    // Create IAM Role for StepFunction/EventBridge to invoke the API Gateway
+    // Scoped to this stack's endpoints, event bus, topic, dead-letter
+    // queue and API access logs
+    private createInvokeApiRole(
+        api: apigateway.RestApi,
+        endpoints: EndpointDefinition[],
+        topic: sns.ITopic,
+    ): iam.Role {
+        const role = new iam.Role(this, "CdkQuiltInvokeApiRole", {
+            assumedBy: new iam.ServicePrincipal("events.amazonaws.com"),
+        });
+        const routes = new Map<string, [string, string]>();
+        for (const endpoint of endpoints) {
+            const path = this.frontDoor.internalPath(
+                endpoint.path.replace(/{[^}]+}/g, "*"),
+            );
+            routes.set(`${endpoint.method} ${path}`, [endpoint.method, path]);
+        }
+        role.addToPolicy(
+            new iam.PolicyStatement({
+                actions: ["execute-api:Invoke"],
+                resources: [...routes.values()].map(([method, path]) =>
+                    api.arnForExecuteApi(
+                        method,
+                        path,
+                        api.deploymentStage.stageName,
+                    )
+                ),
+            }),
+        );
+        role.addToPolicy(
+            new iam.PolicyStatement({
+                actions: ["events:PutEvents"],
+                resources: [
+                    this.eventBus?.eventBusArn ??
+                        cdk.Stack.of(this).formatArn({
+                            service: "events",
+                            resource: "event-bus",
+                            resourceName: "default",
+                        }),
+                ],
+            }),
+        );
+        topic.grantPublish(role);
+        this.deadLetterQueue.grantSendMessages(role);
+        this.frontDoor.apiLogGroup.grantWrite(role);
+        // X-Ray does not support resource-level permissions
+        role.addToPolicy(
+            new iam.PolicyStatement({
+                actions: ["xray:PutTraceSegments", "xray:PutTelemetryRecords"],
+                resources: ["*"],
+            }),
+        );
+        role.grant(new iam.ServicePrincipal("events.amazonaws.com"));
+        role.grant(new iam.ServicePrincipal("states.amazonaws.com"));
+        return role;
+    }
+
+    // Create a custom EventBridge rule to invoke the API Gateway endpoint
+    // with the endpoint's path and query parameters mapped from the event
+    private addRule(
+        api: apigateway.RestApi,
+        endpoint: EndpointDefinition,
+        packageWorkflow?: sfn.StateMachine,
+    ): events.Rule {
+        const rule = new events.Rule(
+            this,
+            `CkdQuilt${endpointId(endpoint)}Rule`,
+            {
+                eventBus: this.eventBus,
+                eventPattern: {
+                    source: [this.eventSource],
+                    detailType: [endpoint.detailType],
+                    detail: endpoint.detailPattern,
+                },
+            },
+        );
+
+        // CreatePackage events are orchestrated by the package workflow,
+        // which resolves the registry itself
+        if (
+            packageWorkflow &&
+            endpoint.detailType === CREATE_PACKAGE_DETAIL_TYPE
+        ) {
+            rule.addTarget(
+                new targets.SfnStateMachine(packageWorkflow, {
+                    ...this.targetProps(),
+                    input: events.RuleTargetInput.fromEventPath("$.detail"),
+                }),
+            );
+            return rule;
+        }
+
+        rule.addTarget(
+            new targets.ApiGateway(api, {
+                ...this.targetProps(),
+                method: endpoint.method,
+                // The target fills `*` segments from pathParameterValues
+                path: this.frontDoor.internalPath(endpoint.path.replace(/{[^}]+}/g, "*")),
+                stage: api.deploymentStage.stageName,
+                pathParameterValues: endpoint.pathParams,
+                queryStringParameters: endpoint.queryParams,
+            }),
+        );
+        return rule;
+    }
+
+    private createEventBridgeRules(
+        api: apigateway.RestApi,
+        endpoints: EndpointDefinition[],
+        packageWorkflow?: sfn.StateMachine,
+    ): events.Rule[] {
+        return endpoints.map((endpoint) =>
+            this.addRule(api, endpoint, packageWorkflow)
+        );
+    }
+
+    // API Gateway task whose path is built at run time from `pathArgs`
+    // (JSONPaths filling the `{}` slots of `pathFormat`). The CDK task
+    // construct needs a static path, so the state is written as raw ASL.
+    private createDynamicApiTask(
+        id: string,
+        api: apigateway.RestApi,
+        method: string,
+        pathFormat: string,
+        pathArgs: string[],
+        options: {
+            parameters?: { [key: string]: unknown };
+            waitForTaskToken?: boolean;
+            timeoutSeconds?: number;
+            resultPath: string;
+        },
+    ): sfn.CustomState {
+        const stack = cdk.Stack.of(this);
+        return new sfn.CustomState(this, id, {
+            stateJson: {
+                Type: "Task",
+                Resource: `arn:${stack.partition}:states:::apigateway:invoke${
+                    options.waitForTaskToken ? ".waitForTaskToken" : ""
+                }`,
+                Parameters: {
+                    ApiEndpoint:
+                        `${api.restApiId}.execute-api.${stack.region}.${stack.urlSuffix}`,
+                    Method: method,
+                    Stage: api.deploymentStage.stageName,
+                    "Path.$": `States.Format('${
+                        this.frontDoor.internalPath(pathFormat)
+                    }', ${pathArgs.join(", ")})`,
+                    AuthType: !this.frontDoor.signsInternalCalls()
+                        ? "NO_AUTH"
+                        : "IAM_ROLE",
+                    ...options.parameters,
+                },
+                TimeoutSeconds: options.timeoutSeconds,
+                ResultPath: options.resultPath,
+            },
+        });
+    }
+
+    // Submits a package build, then polls the job status (or waits for the
+    // service to return the task token) and publishes the outcome:
+    //   { status, package_handle, top_hash, registry, s3_folder, execution }
+    private createPackageWorkflow(
+        api: apigateway.RestApi,
+        topic: sns.Topic,
+        workflow: PackageWorkflowConfig,
+        defaultRegistry: string,
+        taskRole?: iam.IRole,
+    ): sfn.StateMachine {
+        const stage = api.deploymentStage.stageName;
+
+        // Fill in the registry and metadata when the event omits them
+        const withDefaults = new sfn.Pass(this, "PackageDefaults", {
+            parameters: {
+                defaults: { bucket_name: defaultRegistry, metadata: {} },
+                "detail.$": "$",
+            },
+        });
+        const buildRequest = new sfn.Pass(this, "PackageRequest", {
+            parameters: {
+                "request.$": "States.JsonMerge($.defaults, $.detail, false)",
+                poll: {
+                    attempts: 0,
+                    waitSeconds: workflow.initialWaitSeconds,
+                },
+            },
+        });
+
+        const notifySuccess = new tasks.SnsPublish(
+            this,
+            "NotifyPackageSucceeded",
+            {
+                topic,
+                subject: "Quilt package created",
+                message: sfn.TaskInput.fromObject({
+                    summary: sfn.JsonPath.format(
+                        "Quilt package {} created in {}",
+                        sfn.JsonPath.stringAt("$.result.package_handle"),
+                        sfn.JsonPath.stringAt("$.request.bucket_name"),
+                    ),
+                    status: "SUCCEEDED",
+                    package_handle: sfn.JsonPath.stringAt(
+                        "$.result.package_handle",
+                    ),
+                    top_hash: sfn.JsonPath.stringAt("$.result.top_hash"),
+                    registry: sfn.JsonPath.stringAt("$.request.bucket_name"),
+                    s3_folder: sfn.JsonPath.stringAt("$.request.s3_folder"),
+                    execution: sfn.JsonPath.executionId,
+                }),
+                messageAttributes: notificationAttributes({
+                    detailType: CREATE_PACKAGE_DETAIL_TYPE,
+                    severity: "INFO",
+                    status: "SUCCEEDED",
+                }),
+                resultPath: sfn.JsonPath.DISCARD,
+            },
+        );
+        const notifyFailure = new tasks.SnsPublish(
+            this,
+            "NotifyPackageFailed",
+            {
+                topic,
+                subject: "Quilt package failed",
+                message: sfn.TaskInput.fromObject({
+                    summary: sfn.JsonPath.format(
+                        "Quilt package {} failed: {}",
+                        sfn.JsonPath.stringAt("$.request.package_name"),
+                        sfn.JsonPath.stringAt("$.error.Error"),
+                    ),
+                    status: "FAILED",
+                    error: sfn.JsonPath.stringAt("$.error.Error"),
+                    cause: sfn.JsonPath.stringAt("$.error.Cause"),
+                    package_name: sfn.JsonPath.stringAt(
+                        "$.request.package_name",
+                    ),
+                    registry: sfn.JsonPath.stringAt("$.request.bucket_name"),
+                    s3_folder: sfn.JsonPath.stringAt("$.request.s3_folder"),
+                    execution: sfn.JsonPath.executionId,
+                }),
+                messageAttributes: notificationAttributes({
+                    detailType: CREATE_PACKAGE_DETAIL_TYPE,
+                    severity: "ERROR",
+                    status: "FAILED",
+                }),
+                resultPath: sfn.JsonPath.DISCARD,
+            },
+        );
+        this.addTaskRetry(notifySuccess);
+        this.addTaskRetry(notifyFailure);
+        notifySuccess.next(new sfn.Succeed(this, "PackageSucceeded"));
+        notifyFailure.next(new sfn.Fail(this, "PackageFailed"));
+
+        const callback = workflow.completion === "callback";
+        const submit = this.createDynamicApiTask(
+            "SubmitPackage",
+            api,
+            "POST",
+            "/registries/{}/packages",
+            ["$.request.bucket_name"],
+            {
+                parameters: {
+                    QueryParameters: packageQueryParameters("$.request"),
+                    ...(callback
+                        ? {
+                            Headers: {
+                                "X-Quilt-Task-Token.$":
+                                    "States.Array($$.Task.Token)",
+                            },
+                        }
+                        : {}),
+                },
+                waitForTaskToken: callback,
+                timeoutSeconds: callback
+                    ? workflow.callbackTimeoutMinutes * 60
+                    : undefined,
+                resultPath: "$.submit",
+            },
+        );
+        // A rejected callback is the service's answer, so only polling retries
+        if (!callback) {
+            this.addTaskRetry(submit);
+        }
+        submit.addCatch(notifyFailure, { resultPath: "$.error" });
+
+        const statusIs = (path: string, value: string) =>
+            sfn.Condition.and(
+                sfn.Condition.isPresent(path),
+                sfn.Condition.stringEquals(path, value),
+            );
+        const resultFrom = (id: string, body: string) =>
+            new sfn.Pass(this, id, {
+                parameters: {
+                    "package_handle.$": `${body}.package_handle`,
+                    "top_hash.$": `${body}.top_hash`,
+                },
+                resultPath: "$.result",
+            }).next(notifySuccess);
+        const failWith = (id: string, error: string, causePath: string) =>
+            new sfn.Pass(this, id, {
+                parameters: {
+                    Error: error,
+                    "Cause.$": `States.JsonToString(${causePath})`,
+                },
+                resultPath: "$.error",
+            }).next(notifyFailure);
+
+        let afterSubmit: sfn.IChainable;
+        if (callback) {
+            // The service answers with SendTaskSuccess (package_handle,
+            // top_hash) or SendTaskFailure, which lands in the catch above
+            afterSubmit = resultFrom("PackageFromCallback", "$.submit");
+        } else {
+            const status = this.createDynamicApiTask(
+                "GetPackageStatus",
+                api,
+                "GET",
+                workflow.statusPath.replace(/{[^}]+}/g, "{}"),
+                (workflow.statusPath.match(/{[^}]+}/g) ?? []).map((name) =>
+                    name === "{job_id}"
+                        ? "$.submit.ResponseBody.job_id"
+                        : "$.request.bucket_name"
+                ),
+                { resultPath: "$.status" },
+            );
+            this.addTaskRetry(status);
+            status.addCatch(notifyFailure, { resultPath: "$.error" });
+
+            const wait = new sfn.Wait(this, "WaitForPackage", {
+                time: sfn.WaitTime.secondsPath("$.poll.waitSeconds"),
+            });
+            const backoff = new sfn.Pass(this, "BackoffPackagePoll", {
+                parameters: {
+                    "attempts.$": "States.MathAdd($.poll.attempts, 1)",
+                    "waitSeconds.$":
+                        "States.MathAdd($.poll.waitSeconds, $.poll.waitSeconds)",
+                },
+                resultPath: "$.poll",
+            });
+            const capBackoff = new sfn.Pass(this, "CapPackagePoll", {
+                parameters: {
+                    "attempts.$": "$.poll.attempts",
+                    waitSeconds: workflow.maxWaitSeconds,
+                },
+                resultPath: "$.poll",
+            });
+            backoff.next(
+                new sfn.Choice(this, "PackagePollCapped")
+                    .when(
+                        sfn.Condition.numberGreaterThan(
+                            "$.poll.waitSeconds",
+                            workflow.maxWaitSeconds,
+                        ),
+                        capBackoff.next(wait),
+                    )
+                    .otherwise(wait),
+            );
+
+            wait.next(status).next(
+                new sfn.Choice(this, "PackageStatus")
+                    .when(
+                        statusIs("$.status.ResponseBody.status", "SUCCEEDED"),
+                        resultFrom("PackageFromStatus", "$.status.ResponseBody"),
+                    )
+                    .when(
+                        statusIs("$.status.ResponseBody.status", "FAILED"),
+                        failWith(
+                            "PackageJobFailed",
+                            "PackageJobFailed",
+                            "$.status.ResponseBody",
+                        ),
+                    )
+                    .when(
+                        sfn.Condition.numberGreaterThanEquals(
+                            "$.poll.attempts",
+                            workflow.maxAttempts,
+                        ),
+                        failWith(
+                            "PackagePollTimedOut",
+                            "PackagePollTimedOut",
+                            "$.poll",
+                        ),
+                    )
+                    .otherwise(backoff),
+            );
+
+            // A synchronous service may finish the package in the POST itself
+            afterSubmit = new sfn.Choice(this, "PackageSubmitted")
+                .when(
+                    statusIs("$.submit.ResponseBody.status", "SUCCEEDED"),
+                    resultFrom("PackageFromSubmit", "$.submit.ResponseBody"),
+                )
+                .when(
+                    sfn.Condition.isPresent("$.submit.ResponseBody.job_id"),
+                    wait,
+                )
+                .otherwise(
+                    failWith(
+                        "PackageSubmitUnexpected",
+                        "PackageSubmitUnexpected",
+                        "$.submit",
+                    ),
+                );
+        }
+
+        const stateMachineId = "CdkQuiltCreatePackageStateMachine";
+        const stateMachine = new sfn.StateMachine(this, stateMachineId, {
+            stateMachineName: this.physicalName(stateMachineId),
+            tracingEnabled: this.props.tracing,
+            definitionBody: sfn.DefinitionBody.fromChainable(
+                sfn.Chain.start(withDefaults)
+                    .next(buildRequest)
+                    .next(submit)
+                    .next(afterSubmit),
+            ),
+        });
+        if (this.frontDoor.signsInternalCalls()) {
+            stateMachine.addToRolePolicy(
+                new iam.PolicyStatement({
+                    actions: ["execute-api:Invoke"],
+                    resources: [
+                        api.arnForExecuteApi(
+                            "POST",
+                            this.frontDoor.internalPath("/registries/*/packages"),
+                            stage,
+                        ),
+                        api.arnForExecuteApi(
+                            "GET",
+                            this.frontDoor.internalPath(
+                                workflow.statusPath.replace(/{[^}]+}/g, "*"),
+                            ),
+                            stage,
+                        ),
+                    ],
+                }),
+            );
+        }
+        if (callback && taskRole) {
+            stateMachine.grantTaskResponse(taskRole);
+        }
+        return stateMachine;
+    }
+
+    // Turns marker-file uploads into CreatePackage events. A state machine
+    // derives the package name and folder from the marker's key, records the
+    // marker in a table so redelivered S3 events are dropped, then publishes.
+    private createIngestion(
+        ingestion: IngestionConfig[],
+        registryBuckets: Map<string, s3.IBucket>,
+        topic: sns.ITopic,
+    ): void {
+        const dedupTable = new dynamodb.Table(
+            this,
+            "CdkQuiltIngestionDedupTable",
+            {
+                partitionKey: {
+                    name: "markerId",
+                    type: dynamodb.AttributeType.STRING,
+                },
+                billingMode: dynamodb.BillingMode.PAY_PER_REQUEST,
+                removalPolicy: cdk.RemovalPolicy.DESTROY,
+            },
+        );
+
+        const splitKey = new sfn.Pass(this, "SplitMarkerKey", {
+            parameters: {
+                "parts.$": "States.StringSplit($.key, '/')",
+                "count.$":
+                    "States.ArrayLength(States.StringSplit($.key, '/'))",
+                "expected.$": "States.MathAdd($.depth, 3)",
+            },
+            resultPath: "$.split",
+        });
+        // The rule's wildcards also match across `/`, so keys deeper than
+        // `<prefix><namespace>/<name>/<marker>` are dropped here
+        const checkDepth = new sfn.Choice(this, "CheckMarkerDepth");
+        // `depth` is the number of folders in the watched prefix, so the
+        // next two segments are the package namespace and name
+        const namespace = "States.ArrayGetItem($.split.parts, $.depth)";
+        const name =
+            "States.ArrayGetItem($.split.parts, States.MathAdd($.depth, 1))";
+        const buildRequest = new sfn.Pass(this, "BuildPackageRequest", {
+            parameters: {
+                "registry.$": "$.registry",
+                "package_name.$": `States.Format('{}/{}', ${namespace}, ${name})`,
+                "s3_folder.$":
+                    `States.Format('s3://{}/{}{}/{}/', $.bucket, $.prefix, ${namespace}, ${name})`,
+                "marker.$": "States.Format('s3://{}/{}', $.bucket, $.key)",
+                "markerId.$":
+                    "States.Format('{}/{}#{}', $.bucket, $.key, $.sequencer)",
+            },
+            resultPath: "$.request",
+        });
+        const recordMarker = new tasks.DynamoPutItem(
+            this,
+            "RecordIngestionMarker",
+            {
+                table: dedupTable,
+                item: {
+                    markerId: tasks.DynamoAttributeValue.fromString(
+                        sfn.JsonPath.stringAt("$.request.markerId"),
+                    ),
+                    packageName: tasks.DynamoAttributeValue.fromString(
+                        sfn.JsonPath.stringAt("$.request.package_name"),
+                    ),
+                    receivedAt: tasks.DynamoAttributeValue.fromString(
+                        sfn.JsonPath.stringAt("$$.State.EnteredTime"),
+                    ),
+                },
+                conditionExpression: "attribute_not_exists(markerId)",
+                resultPath: sfn.JsonPath.DISCARD,
+            },
+        );
+        const ingestionFailed = this.createFailureNotification(
+            "Ingestion",
+            topic,
+            {
+                marker: sfn.JsonPath.stringAt("$.request.marker"),
+                package_name: sfn.JsonPath.stringAt("$.request.package_name"),
+            },
+        );
+        recordMarker.addCatch(
+            new sfn.Succeed(this, "DuplicateMarker"),
+            { errors: ["DynamoDB.ConditionalCheckFailedException"] },
+        );
+        // The conditional check never succeeds on retry
+        this.addTaskRetry(recordMarker, [
+            "DynamoDB.ProvisionedThroughputExceededException",
+            "DynamoDB.RequestLimitExceeded",
+            "DynamoDB.InternalServerErrorException",
+        ]);
+        recordMarker.addCatch(ingestionFailed, { resultPath: "$.error" });
+        const detail: { [field in keyof CreatePackageDetail]: unknown } = {
+            bucket_name: sfn.JsonPath.stringAt("$.request.registry"),
+            package_name: sfn.JsonPath.stringAt("$.request.package_name"),
+            s3_folder: sfn.JsonPath.stringAt("$.request.s3_folder"),
+            metadata: {
+                marker: sfn.JsonPath.stringAt("$.request.marker"),
+            },
+        };
+        const publish = new tasks.EventBridgePutEvents(
+            this,
+            "PublishCreatePackage",
+            {
+                entries: [
+                    {
+                        eventBus: this.eventBus,
+                        source: this.eventSource,
+                        detailType: CREATE_PACKAGE_DETAIL_TYPE,
+                        detail: sfn.TaskInput.fromObject(detail),
+                    },
+                ],
+                resultPath: sfn.JsonPath.DISCARD,
+            },
+        );
+        this.addTaskRetry(publish);
+        publish.addCatch(ingestionFailed, { resultPath: "$.error" });
+
+        const stateMachineId = "CdkQuiltIngestionStateMachine";
+        const stateMachine = new sfn.StateMachine(this, stateMachineId, {
+            stateMachineName: this.physicalName(stateMachineId),
+            tracingEnabled: this.props.tracing,
+            definitionBody: sfn.DefinitionBody.fromChainable(
+                sfn.Chain.start(splitKey).next(
+                    checkDepth
+                        .when(
+                            sfn.Condition.numberEqualsJsonPath(
+                                "$.split.count",
+                                "$.split.expected",
+                            ),
+                            buildRequest.next(recordMarker).next(publish),
+                        )
+                        .otherwise(new sfn.Succeed(this, "IgnoreMarkerKey")),
+                ),
+            ),
+        });
+
+        for (const entry of ingestion) {
+            const bucket = registryBuckets.get(entry.bucket)!;
+            bucket.enableEventBridgeNotification();
+            const bucketId = entry.bucket.replace(/[^A-Za-z0-9]/g, "");
+            entry.prefixes.forEach((prefix, i) => {
+                new events.Rule(this, `CdkQuiltIngest${bucketId}${i}Rule`, {
+                    eventPattern: {
+                        source: ["aws.s3"],
+                        detailType: ["Object Created"],
+                        detail: {
+                            bucket: { name: [entry.bucket] },
+                            object: {
+                                key: events.Match.wildcard(
+                                    `${escapeWildcard(prefix)}*/*/${
+                                        escapeWildcard(entry.markerFile)
+                                    }`,
+                                ),
+                            },
+                        },
+                    },
+                    targets: [
+                        new targets.SfnStateMachine(stateMachine, {
+                            ...this.targetProps(),
+                            input: events.RuleTargetInput.fromObject({
+                                bucket: events.EventField.fromPath(
+                                    "$.detail.bucket.name",
+                                ),
+                                key: events.EventField.fromPath(
+                                    "$.detail.object.key",
+                                ),
+                                sequencer: events.EventField.fromPath(
+                                    "$.detail.object.sequencer",
+                                ),
+                                prefix,
+                                depth: prefix.split("/").filter(Boolean).length,
+                                registry: entry.registry,
+                            }),
+                        }),
+                    ],
+                });
+            });
+        }
+    }
+
+    private createSendEventTask(path: string, type: string): sfn.IChainable {
+        return new tasks.EventBridgePutEvents(
+            this,
+            `SendEventToEventBridge${type}`,
+            {
+                entries: [
+                    {
+                        eventBus: this.eventBus,
+                        source: this.eventSource,
+                        detailType: type,
+                        detail: sfn.TaskInput.fromObject({
+                            message: `Event for ${type}`,
+                            path: path,
+                        }),
+                    },
+                ],
+                resultPath: "$.eventResult",
+            },
+        );
+    }
+
+    private createApiTask(
+        api: apigateway.RestApi,
+        endpoint: EndpointDefinition,
+    ): tasks.CallApiGatewayRestApiEndpoint {
+        const task = new tasks.CallApiGatewayRestApiEndpoint(
+            this,
+            `CallApiGateway${endpoint.path.replace(/^\//, "")}`,
+            {
+                api,
+                stageName: api.deploymentStage.stageName,
+                method: tasks.HttpMethod[endpoint.method],
+                apiPath: this.frontDoor.internalPath(endpoint.path),
+                authType: !this.frontDoor.signsInternalCalls()
+                    ? tasks.AuthType.NO_AUTH
+                    : tasks.AuthType.IAM_ROLE,
+                resultPath: `$.apiResult`,
+            },
+        );
+        this.addTaskRetry(task);
+        return task;
+    }
+
+    // Create a state machine per endpoint that calls it and then notifies
+    // the topic with the response
+    private createStateMachines(
+        api: apigateway.RestApi,
+        topic: sns.Topic,
+        endpoints: EndpointDefinition[],
+        probes: { [endpointId: string]: ProbeConfig },
+    ): void {
+        const unknown = Object.keys(probes).filter((id) =>
+            !endpoints.some((endpoint) => endpointId(endpoint) === id)
+        );
+        if (unknown.length > 0) {
+            throw new Error(
+                `Probes need an endpoint with a state machine: ${unknown.join(", ")}`,
+            );
+        }
+        const history = unknown.length < Object.keys(probes).length
+            ? this.createProbeHistoryTable()
+            : undefined;
+
+        for (const endpoint of endpoints) {
+            const type = endpointId(endpoint);
+            const stateMachineId = `CdkQuilt${type}StateMachine`;
+            const stateMachineName = this.physicalName(stateMachineId);
+
+            const callApiTask = this.createApiTask(api, endpoint);
+            const probe = probes[type];
+            if (probe && history) {
+                const stateMachine = new sfn.StateMachine(this, stateMachineId, {
+                    stateMachineName,
+                    tracingEnabled: this.props.tracing,
+                    definitionBody: sfn.DefinitionBody.fromChainable(
+                        this.createProbeChain(
+                            type,
+                            callApiTask,
+                            probe,
+                            topic,
+                            history,
+                        ),
+                    ),
+                });
+                this.scheduleProbe(type, stateMachine, probe);
+                continue;
+            }
+            const notifyTopicTask = new tasks.SnsPublish(
+                this,
+                `CdkQuiltNotify${type}Topic`,
+                {
+                    topic: topic,
+                    subject: sfn.JsonPath.format(
+                        `Quilt ${type} returned {}`,
+                        sfn.JsonPath.stringAt("$.apiResult.StatusCode"),
+                    ),
+                    message: sfn.TaskInput.fromObject({
+                        "summary": sfn.JsonPath.format(
+                            `Quilt ${type} returned {} {}`,
+                            sfn.JsonPath.stringAt("$.apiResult.StatusCode"),
+                            sfn.JsonPath.stringAt("$.apiResult.StatusText"),
+                        ),
+                        "Date": sfn.JsonPath.stringAt('$.apiResult.Headers.Date[0]'),
+                        "ResponseBody": sfn.JsonPath.stringAt('$.apiResult.ResponseBody'),
+                        "Status Code": sfn.JsonPath.numberAt('$.apiResult.StatusCode'),
+                        "Status Text": sfn.JsonPath.stringAt('$.apiResult.StatusText'),
+                        // "Headers": sfn.JsonPath.objectAt('$.apiResult.Headers'),
+                    }),
+                    messageAttributes: notificationAttributes({
+                        detailType: type,
+                        severity: sfn.JsonPath.stringAt("$.notification.severity"),
+                        status: sfn.JsonPath.stringAt("$.notification.status"),
+                        statusCode: sfn.JsonPath.format(
+                            "{}",
+                            sfn.JsonPath.stringAt("$.apiResult.StatusCode"),
+                        ),
+                    }),
+                },
+            );
+            this.addTaskRetry(notifyTopicTask);
+            callApiTask.addCatch(
+                this.createFailureNotification(type, topic, {
+                    endpoint: `${endpoint.method} ${endpoint.path}`,
+                }),
+                { resultPath: "$.error" },
+            );
+            const chain = sfn.Chain.start(callApiTask)
+                .next(this.classifyResponse(type))
+                .next(notifyTopicTask);
+
+            // Define the state machine
+            const stateMachine = new sfn.StateMachine(this, stateMachineId, {
+                stateMachineName: stateMachineName,
+                tracingEnabled: this.props.tracing,
+                definitionBody: sfn.DefinitionBody.fromChainable(chain),
+            });
+            console.log(`Created state machine: ${stateMachineName}`);
+        }
+    }
+
+    // Sets `$.notification` to the severity and status of `$.apiResult`:
+    // server errors are errors, other non-2xx responses warnings
+    private classifyResponse(type: string): sfn.Chain {
+        const classify = (
+            id: string,
+            notification: Omit<NotificationAttributes, "detailType">,
+        ) =>
+            new sfn.Pass(this, `CdkQuilt${type}${id}`, {
+                parameters: notification,
+                resultPath: "$.notification",
+            });
+        const statusCode = "$.apiResult.StatusCode";
+        return new sfn.Choice(this, `CdkQuilt${type}Classify`)
+            .when(
+                sfn.Condition.numberGreaterThanEquals(statusCode, 500),
+                classify("Error", { severity: "ERROR", status: "FAILED" }),
+            )
+            .when(
+                sfn.Condition.or(
+                    sfn.Condition.numberLessThan(statusCode, 200),
+                    sfn.Condition.numberGreaterThanEquals(statusCode, 300),
+                ),
+                classify("Warning", { severity: "WARNING", status: "FAILED" }),
+            )
+            .otherwise(
+                classify("Info", { severity: "INFO", status: "SUCCEEDED" }),
+            )
+            .afterwards();
+    }
+
+    // One item per probe run (probe, at) plus a LATEST item per probe that
+    // holds the last status, so recoveries can be detected
+    private createProbeHistoryTable(): dynamodb.Table {
+        const table = new dynamodb.Table(this, "CdkQuiltProbeHistoryTable", {
+            partitionKey: { name: "probe", type: dynamodb.AttributeType.STRING },
+            sortKey: { name: "at", type: dynamodb.AttributeType.STRING },
+            billingMode: dynamodb.BillingMode.PAY_PER_REQUEST,
+            removalPolicy: cdk.RemovalPolicy.RETAIN,
+        });
+        new cdk.CfnOutput(this, "ProbeHistoryTableName", {
+            value: table.tableName,
+        });
+        return table;
+    }
+
+    // Classifies the call as HEALTHY, DEGRADED or FAILED, records the run,
+    // and notifies only on a failure, degradation or recovery
+    private createProbeChain(
+        type: string,
+        callApiTask: tasks.CallApiGatewayRestApiEndpoint,
+        probe: ProbeConfig,
+        topic: sns.ITopic,
+        history: dynamodb.Table,
+    ): sfn.IChainable {
+        const result = (
+            status: string,
+            severity: NotificationSeverity,
+            statusCode: string,
+            detail: string,
+        ) =>
+            new sfn.Pass(this, `${type}Probe${status}`, {
+                parameters: {
+                    status,
+                    severity,
+                    "statusCode.$": statusCode,
+                    "detail.$": detail,
+                },
+                resultPath: "$.probe",
+            });
+        const body = "States.JsonToString($.apiResult.ResponseBody)";
+        const failed = result("FAILED", "ERROR", "$.apiResult.StatusCode", body);
+        const caught = new sfn.Pass(this, `${type}ProbeError`, {
+            parameters: {
+                status: "FAILED",
+                severity: "ERROR",
+                statusCode: 0,
+                "detail.$": "States.Format('{}: {}', $.error.Error, $.error.Cause)",
+            },
+            resultPath: "$.probe",
+        });
+        callApiTask.addCatch(caught, { resultPath: "$.error" });
+
+        const bodyStatus = "$.apiResult.ResponseBody.status";
+        const classify = new sfn.Choice(this, `${type}ProbeClassify`)
+            .when(
+                sfn.Condition.or(
+                    sfn.Condition.numberLessThan("$.apiResult.StatusCode", 200),
+                    sfn.Condition.numberGreaterThanEquals(
+                        "$.apiResult.StatusCode",
+                        300,
+                    ),
+                ),
+                failed,
+            )
+            .when(
+                sfn.Condition.and(
+                    sfn.Condition.isPresent(bodyStatus),
+                    sfn.Condition.not(
+                        sfn.Condition.or(
+                            ...probe.healthyStatuses.map((value) =>
+                                sfn.Condition.stringEquals(bodyStatus, value)
+                            ),
+                        ),
+                    ),
+                ),
+                result("DEGRADED", "WARNING", "$.apiResult.StatusCode", body),
+            )
+            .otherwise(
+                result("HEALTHY", "INFO", "$.apiResult.StatusCode", body),
+            );
+
+        const recordRun = new tasks.DynamoPutItem(this, `${type}ProbeRecord`, {
+            table: history,
+            item: {
+                probe: tasks.DynamoAttributeValue.fromString(type),
+                at: tasks.DynamoAttributeValue.fromString(
+                    sfn.JsonPath.executionStartTime,
+                ),
+                status: tasks.DynamoAttributeValue.fromString(
+                    sfn.JsonPath.stringAt("$.probe.status"),
+                ),
+                statusCode: tasks.DynamoAttributeValue.numberFromString(
+                    sfn.JsonPath.format(
+                        "{}",
+                        sfn.JsonPath.stringAt("$.probe.statusCode"),
+                    ),
+                ),
+            },
+            resultPath: sfn.JsonPath.DISCARD,
+        });
+        // Keeps the previous status alongside the new one in one write
+        const updateLatest = new tasks.DynamoUpdateItem(
+            this,
+            `${type}ProbeLatest`,
+            {
+                table: history,
+                key: {
+                    probe: tasks.DynamoAttributeValue.fromString(type),
+                    at: tasks.DynamoAttributeValue.fromString("LATEST"),
+                },
+                updateExpression:
+                    "SET previousStatus = if_not_exists(#status, :none), #status = :status",
+                expressionAttributeNames: { "#status": "status" },
+                expressionAttributeValues: {
+                    ":status": tasks.DynamoAttributeValue.fromString(
+                        sfn.JsonPath.stringAt("$.probe.status"),
+                    ),
+                    ":none": tasks.DynamoAttributeValue.fromString("NONE"),
+                },
+                returnValues: tasks.DynamoReturnValues.UPDATED_NEW,
+                resultSelector: {
+                    "previous.$": "$.Attributes.previousStatus.S",
+                },
+                resultPath: "$.latest",
+            },
+        );
+        this.addTaskRetry(recordRun);
+        this.addTaskRetry(updateLatest);
+
+        const notify = new tasks.SnsPublish(this, `CdkQuiltNotify${type}Topic`, {
+            topic,
+            subject: sfn.JsonPath.format(
+                `Quilt ${type} probe {}`,
+                sfn.JsonPath.stringAt("$.probe.status"),
+            ),
+            message: sfn.TaskInput.fromObject({
+                summary: sfn.JsonPath.format(
+                    `Quilt ${type} probe {} (was {})`,
+                    sfn.JsonPath.stringAt("$.probe.status"),
+                    sfn.JsonPath.stringAt("$.latest.previous"),
+                ),
+                probe: type,
+                status: sfn.JsonPath.stringAt("$.probe.status"),
+                previous: sfn.JsonPath.stringAt("$.latest.previous"),
+                statusCode: sfn.JsonPath.numberAt("$.probe.statusCode"),
+                detail: sfn.JsonPath.stringAt("$.probe.detail"),
+                execution: sfn.JsonPath.executionId,
+            }),
+            messageAttributes: notificationAttributes({
+                detailType: type,
+                severity: sfn.JsonPath.stringAt("$.probe.severity"),
+                status: sfn.JsonPath.stringAt("$.probe.status"),
+                statusCode: sfn.JsonPath.format(
+                    "{}",
+                    sfn.JsonPath.stringAt("$.probe.statusCode"),
+                ),
+            }),
+            resultPath: sfn.JsonPath.DISCARD,
+        });
+        this.addTaskRetry(notify);
+
+        const healthy = sfn.Condition.stringEquals("$.probe.status", "HEALTHY");
+        const recovered = sfn.Condition.and(
+            healthy,
+            sfn.Condition.not(
+                sfn.Condition.or(
+                    sfn.Condition.stringEquals("$.latest.previous", "HEALTHY"),
+                    sfn.Condition.stringEquals("$.latest.previous", "NONE"),
+                ),
+            ),
+        );
+        const record = recordRun.next(updateLatest).next(
+            new sfn.Choice(this, `${type}ProbeShouldNotify`)
+                .when(sfn.Condition.not(healthy), notify)
+                .when(recovered, notify)
+                .otherwise(new sfn.Succeed(this, `${type}ProbeQuiet`)),
+        );
+        caught.next(record);
+        return callApiTask.next(classify.afterwards().next(record));
+    }
+
+    // EventBridge Scheduler schedule that starts the probe state machine
+    private scheduleProbe(
+        type: string,
+        stateMachine: sfn.StateMachine,
+        probe: ProbeConfig,
+    ): scheduler.CfnSchedule {
+        const role = new iam.Role(this, `CdkQuilt${type}ProbeScheduleRole`, {
+            assumedBy: new iam.ServicePrincipal("scheduler.amazonaws.com"),
+        });
+        stateMachine.grantStartExecution(role);
+        this.deadLetterQueue.grantSendMessages(role);
+        return new scheduler.CfnSchedule(this, `CdkQuilt${type}ProbeSchedule`, {
+            name: this.physicalName(`CdkQuilt${type}Probe`),
+            scheduleExpression: probe.schedule,
+            scheduleExpressionTimezone: probe.timeZone,
+            flexibleTimeWindow: { mode: "OFF" },
+            target: {
+                arn: stateMachine.stateMachineArn,
+                roleArn: role.roleArn,
+                input: "{}",
+                retryPolicy: {
+                    maximumRetryAttempts: this.errorHandling.targetRetryAttempts,
+                    maximumEventAgeInSeconds:
+                        this.errorHandling.maxEventAgeHours * 3600,
+                },
+                deadLetterConfig: { arn: this.deadLetterQueue.queueArn },
+            },
+        });
+    }
+
+    // Drains the dead-letter queue, re-publishing each event to the bus
+    // so its rule runs again. Events from AWS sources (S3 ingestion,
+    // secret changes) and missed probe runs cannot be re-published and are
+    // left in the queue.
+    private createRedriveStateMachine(): sfn.StateMachine {
+        const queue = this.deadLetterQueue;
+        const receive = new tasks.CallAwsService(this, "ReceiveDeadLetters", {
+            service: "sqs",
+            action: "receiveMessage",
+            parameters: {
+                QueueUrl: queue.queueUrl,
+                MaxNumberOfMessages: 10,
+                VisibilityTimeout: 300,
+            },
+            iamResources: [queue.queueArn],
+            resultPath: "$.received",
+        });
+
+        const parse = new sfn.Pass(this, "ParseDeadLetter", {
+            parameters: {
+                "event.$": "States.StringToJson($.Body)",
+                "receiptHandle.$": "$.ReceiptHandle",
+            },
+        });
+        const republish = new tasks.EventBridgePutEvents(
+            this,
+            "RepublishDeadLetter",
+            {
+                entries: [
+                    {
+                        eventBus: this.eventBus,
+                        source: sfn.JsonPath.stringAt("$.event.source"),
+                        detailType: sfn.JsonPath.stringAt(
+                            "$.event['detail-type']",
+                        ),
+                        detail: sfn.TaskInput.fromJsonPathAt("$.event.detail"),
+                    },
+                ],
+                resultPath: sfn.JsonPath.DISCARD,
+            },
+        );
+        const remove = new tasks.CallAwsService(this, "DeleteDeadLetter", {
+            service: "sqs",
+            action: "deleteMessage",
+            parameters: {
+                QueueUrl: queue.queueUrl,
+                ReceiptHandle: sfn.JsonPath.stringAt("$.receiptHandle"),
+            },
+            iamResources: [queue.queueArn],
+            resultPath: sfn.JsonPath.DISCARD,
+        });
+        this.addTaskRetry(republish);
+        this.addTaskRetry(remove);
+
+        const redriveEach = new sfn.Map(this, "RedriveDeadLetters", {
+            itemsPath: "$.received.Messages",
+            maxConcurrency: 5,
+            resultPath: sfn.JsonPath.DISCARD,
+        });
+        redriveEach.itemProcessor(
+            parse.next(
+                new sfn.Choice(this, "CanRepublish")
+                    // Missed probe runs are dead-lettered with an empty body
+                    .when(
+                        sfn.Condition.not(
+                            sfn.Condition.and(
+                                sfn.Condition.isPresent("$.event.source"),
+                                sfn.Condition.isPresent("$.event['detail-type']"),
+                            ),
+                        ),
+                        new sfn.Pass(this, "SkipNonEvent"),
+                    )
+                    .when(
+                        sfn.Condition.stringMatches("$.event.source", "aws.*"),
+                        new sfn.Pass(this, "SkipAwsEvent"),
+                    )
+                    .otherwise(republish.next(remove)),
+            ),
+        );
+
+        // Received messages stay hidden for the visibility timeout, so the
+        // loop ends once every message has been seen
+        const definition = receive.next(
+            new sfn.Choice(this, "HasDeadLetters")
+                .when(
+                    sfn.Condition.isPresent("$.received.Messages[0]"),
+                    redriveEach.next(receive),
+                )
+                .otherwise(new sfn.Succeed(this, "DeadLettersDrained")),
+        );
+
+        const stateMachineId = "CdkQuiltRedriveStateMachine";
+        return new sfn.StateMachine(this, stateMachineId, {
+            stateMachineName: this.physicalName(stateMachineId),
+            tracingEnabled: this.props.tracing,
+            definitionBody: sfn.DefinitionBody.fromChainable(definition),
+        });
+    }
+}
+
+// Query parameters of a package request built from the detail at `path`,
+// matching those the CreatePackage rules send
+function packageQueryParameters(path: string): { [key: string]: string } {
+    const params: { [key: string]: string } = {};
+    for (const [field, { type, query }] of Object.entries(CREATE_PACKAGE_FIELDS)) {
+        if (query) {
+            const value = `${path}.${field}`;
+            params[`${query}.$`] = type === "object"
+                ? `States.Array(States.JsonToString(${value}))`
+                : `States.Array(${value})`;
+        }
+    }
+    return params;
+}
+
+// EventBridge wildcard patterns treat `*` and `\` as special
+function escapeWildcard(value: string): string {
+    return value.replace(/[*\\]/g, "\\$&");
+}
@@ -0,0 +1,190 @@
+// Details of the events the stack routes to the service, for producers and
+// for the stack's own rule mappings. Needs no AWS SDK, so it runs offline.
+
+// Detail of a CreatePackage event
+export interface CreatePackageDetail {
+    // Registry to create the package in; omit for the default registry
+    bucket_name?: string;
+    // Package handle, "namespace/name"
+    package_name: string;
+    // Folder to package, e.g. "s3://bucket/prefix/"
+    s3_folder: string;
+    // Package-level metadata
+    metadata?: { [key: string]: unknown };
+}
+
+// Getters ignore the event detail
+export type GetterDetail = Record<string, never>;
+
+// Detail by detail type for every built-in endpoint
+export interface QuiltEventDetails {
+    CreatePackage: CreatePackageDetail;
+    GetInfo: GetterDetail;
+    GetHealth: GetterDetail;
+    TestApiKey: GetterDetail;
+}
+
+export type QuiltDetailType = keyof QuiltEventDetails;
+
+// How a detail field is checked and passed to the service
+export interface DetailField {
+    type: "string" | "object";
+    required: boolean;
+    // Query string parameter that carries the field, if any
+    query?: string;
+    // Checked on top of the type, e.g. "namespace/name"
+    pattern?: RegExp;
+}
+
+export type DetailFields<T> = { [field in keyof Required<T>]: DetailField };
+
+// bucket_name picks the registry in the path rather than the query string
+export const CREATE_PACKAGE_FIELDS: DetailFields<CreatePackageDetail> = {
+    bucket_name: { type: "string", required: false },
+    package_name: {
+        type: "string",
+        required: true,
+        query: "package_handle",
+        pattern: /^[^/\s]+\/[^/\s]+$/,
+    },
+    s3_folder: {
+        type: "string",
+        required: true,
+        query: "s3_folder",
+        pattern: /^s3:\/\/[^/]+\//,
+    },
+    metadata: { type: "object", required: false, query: "metadata" },
+};
+
+export const QUILT_EVENT_FIELDS: {
+    [detailType in QuiltDetailType]: DetailFields<QuiltEventDetails[detailType]>;
+} = {
+    CreatePackage: CREATE_PACKAGE_FIELDS,
+    GetInfo: {},
+    GetHealth: {},
+    TestApiKey: {},
+};
+
+// JSON Schema of an event detail
+export interface DetailSchema {
+    type: "object";
+    properties: { [field: string]: { type?: string } };
+    required: string[];
+}
+
+// JSONPath of a detail field in an event
+export function detailPath(field: string): string {
+    return `$.detail.${field}`;
+}
+
+// Query string parameter => JSONPath for the fields sent as parameters
+export function detailQueryParams(
+    fields: { [field: string]: DetailField },
+): { [name: string]: string } {
+    const params: { [name: string]: string } = {};
+    for (const [field, { query }] of Object.entries(fields)) {
+        if (query) {
+            params[query] = detailPath(field);
+        }
+    }
+    return params;
+}
+
+export function detailSchema(
+    fields: { [field: string]: DetailField },
+): DetailSchema {
+    return {
+        type: "object",
+        properties: Object.fromEntries(
+            Object.entries(fields).map(([field, { type }]) => [field, { type }]),
+        ),
+        required: Object.entries(fields)
+            .filter(([, { required }]) => required)
+            .map(([field]) => field),
+    };
+}
+
+export function isQuiltDetailType(
+    detailType: string,
+): detailType is QuiltDetailType {
+    return Object.prototype.hasOwnProperty.call(QUILT_EVENT_FIELDS, detailType);
+}
+
+// Returns a description of every problem, empty when the detail is valid.
+// Details of other detail types only have to be objects.
+export function eventDetailIssues(
+    detailType: string,
+    detail: unknown,
+): string[] {
+    if (!isObject(detail)) {
+        return [`${detailType} detail must be an object`];
+    }
+    if (!isQuiltDetailType(detailType)) {
+        return [];
+    }
+    const fields: { [field: string]: DetailField } =
+        QUILT_EVENT_FIELDS[detailType];
+    const issues: string[] = [];
+    for (const field of Object.keys(detail)) {
+        if (!(field in fields)) {
+            issues.push(`${detailType} has no field '${field}'`);
+        }
+    }
+    for (const [field, spec] of Object.entries(fields)) {
+        const value = detail[field];
+        if (value === undefined) {
+            if (spec.required) {
+                issues.push(`${detailType}.${field} is required`);
+            }
+        } else if (
+            spec.type === "object" ? !isObject(value) : typeof value !== "string"
+        ) {
+            issues.push(`${detailType}.${field} must be a JSON ${spec.type}`);
+        } else if (spec.pattern && !spec.pattern.test(value as string)) {
+            issues.push(
+                `${detailType}.${field} must match ${spec.pattern}: ${value}`,
+            );
+        }
+    }
+    return issues;
+}
+
+// Matches PutEventsRequestEntry of @aws-sdk/client-eventbridge
+export interface PutEventsEntry {
+    Source: string;
+    DetailType: string;
+    Detail: string;
+    EventBusName?: string;
+    // X-Ray trace header, so the trace continues through the API
+    TraceHeader?: string;
+}
+
+// Builds a PutEvents entry for the stack with `eventSource` (the
+// QUILT_EVENT_SOURCE/eventSource config), throwing if the detail is invalid.
+// Pass the current trace header (e.g. process.env._X_AMZN_TRACE_ID in a
+// Lambda function) to trace the event through to the service.
+export function putEventsEntry<T extends QuiltDetailType>(
+    eventSource: string,
+    detailType: T,
+    detail: QuiltEventDetails[T],
+    eventBusName?: string,
+    traceHeader?: string,
+): PutEventsEntry {
+    const issues = eventDetailIssues(detailType, detail);
+    if (issues.length > 0) {
+        throw new Error(
+            `Invalid ${detailType} event:\n  - ${issues.join("\n  - ")}`,
+        );
+    }
+    return {
+        Source: eventSource,
+        DetailType: detailType,
+        Detail: JSON.stringify(detail),
+        ...(eventBusName ? { EventBusName: eventBusName } : {}),
+        ...(traceHeader ? { TraceHeader: traceHeader } : {}),
+    };
+}
+
+function isObject(value: unknown): value is { [key: string]: unknown } {
+    return typeof value === "object" && value !== null && !Array.isArray(value);
+}
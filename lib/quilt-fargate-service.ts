@@ -0,0 +1,1272 @@
+import * as apigateway from "aws-cdk-lib/aws-apigateway";
+import * as appscaling from "aws-cdk-lib/aws-applicationautoscaling";
+import * as cdk from "aws-cdk-lib";
+import * as cloudwatch from "aws-cdk-lib/aws-cloudwatch";
+import * as codedeploy from "aws-cdk-lib/aws-codedeploy";
+import * as ec2 from "aws-cdk-lib/aws-ec2";
+import * as cr from "aws-cdk-lib/custom-resources";
+import * as ecr from "aws-cdk-lib/aws-ecr";
+import * as ecr_assets from "aws-cdk-lib/aws-ecr-assets";
+import * as ecs from "aws-cdk-lib/aws-ecs";
+import * as elbv2 from "aws-cdk-lib/aws-elasticloadbalancingv2";
+import * as events from "aws-cdk-lib/aws-events";
+import * as iam from "aws-cdk-lib/aws-iam";
+import * as kms from "aws-cdk-lib/aws-kms";
+import * as lambda from "aws-cdk-lib/aws-lambda";
+import * as logs from "aws-cdk-lib/aws-logs";
+import * as s3 from "aws-cdk-lib/aws-s3";
+import * as secretsmanager from "aws-cdk-lib/aws-secretsmanager";
+import * as sfn from "aws-cdk-lib/aws-stepfunctions";
+import * as sqs from "aws-cdk-lib/aws-sqs";
+import * as ssm from "aws-cdk-lib/aws-ssm";
+import * as targets from "aws-cdk-lib/aws-events-targets";
+import * as tasks from "aws-cdk-lib/aws-stepfunctions-tasks";
+
+import { FactName, RegionInfo } from "aws-cdk-lib/region-info";
+import { Construct } from "constructs";
+import {
+    AccessLogsConfig,
+    ContainerConfig,
+    ContainerSecretConfig,
+    DEFAULT_ACCESS_LOGS,
+    DEFAULT_DEPLOYMENT,
+    DEFAULT_IMAGE,
+    DEFAULT_NETWORK,
+    DEFAULT_TELEMETRY,
+    DeploymentConfig,
+    ErrorHandlingConfig,
+    ImageConfig,
+    NetworkConfig,
+    ScalingConfig,
+    SidecarConfig,
+    TelemetryConfig,
+} from "./config";
+import { addTaskRetry, physicalName, targetProps } from "./shared";
+
+export const CONTAINER_NAME = "CdkQuiltFargateContainer";
+
+// Pinned so that task restarts never pick up a new sidecar release; bump
+// them deliberately
+const ADOT_COLLECTOR_IMAGE =
+    "public.ecr.aws/aws-observability/aws-otel-collector:v0.40.0";
+const XRAY_DAEMON_IMAGE = "public.ecr.aws/xray/aws-xray-daemon:3.3.12";
+const FLUENT_BIT_IMAGE =
+    "public.ecr.aws/aws-observability/aws-for-fluent-bit:2.32.2";
+// Where the ADOT collector's default ECS config writes OTLP metrics
+const ADOT_METRICS_LOG_GROUP = "/aws/ecs/application/metrics";
+
+// CodeDeploy lifecycle hook: GETs each validation path through the test
+// listener and reports the result back to the deployment. It connects to a
+// private address of the NLB, as the test listener only admits the hook.
+const DEPLOYMENT_HOOK_CODE = `
+const {
+    CodeDeployClient,
+    PutLifecycleEventHookExecutionStatusCommand,
+} = require("@aws-sdk/client-codedeploy");
+const {
+    EC2Client,
+    DescribeNetworkInterfacesCommand,
+} = require("@aws-sdk/client-ec2");
+const codedeploy = new CodeDeployClient({});
+const ec2 = new EC2Client({});
+
+async function testUrl() {
+    const { NetworkInterfaces } = await ec2.send(
+        new DescribeNetworkInterfacesCommand({
+            Filters: [{
+                Name: "description",
+                Values: ["ELB " + process.env.LOAD_BALANCER],
+            }],
+        }),
+    );
+    const address = NetworkInterfaces[0].PrivateIpAddress;
+    return "http://" + address + ":" + process.env.TEST_PORT;
+}
+
+exports.handler = async (event) => {
+    let status = "Succeeded";
+    let url;
+    try {
+        url = await testUrl();
+    } catch (err) {
+        console.log("NLB address", String(err));
+        status = "Failed";
+    }
+    for (const path of url ? JSON.parse(process.env.VALIDATION_PATHS) : []) {
+        try {
+            const response = await fetch(url + path, {
+                signal: AbortSignal.timeout(10000),
+            });
+            console.log(path, response.status);
+            if (!response.ok) {
+                status = "Failed";
+            }
+        } catch (err) {
+            console.log(path, String(err));
+            status = "Failed";
+        }
+    }
+    await codedeploy.send(new PutLifecycleEventHookExecutionStatusCommand({
+        deploymentId: event.DeploymentId,
+        lifecycleEventHookExecutionId: event.LifecycleEventHookExecutionId,
+        status,
+    }));
+};
+`;
+
+// Custom resource handler: resolves an image tag to its digest, failing
+// when the tag has not been pushed
+const IMAGE_DIGEST_CODE = `
+const { ECRClient, DescribeImagesCommand } = require("@aws-sdk/client-ecr");
+const ecr = new ECRClient({});
+
+exports.handler = async (event) => {
+    if (event.RequestType === "Delete") {
+        return { PhysicalResourceId: event.PhysicalResourceId };
+    }
+    const { RepositoryName, ImageTag } = event.ResourceProperties;
+    let imageDetails;
+    try {
+        ({ imageDetails } = await ecr.send(new DescribeImagesCommand({
+            repositoryName: RepositoryName,
+            imageIds: [{ imageTag: ImageTag }],
+        })));
+    } catch (err) {
+        if (err.name !== "ImageNotFoundException") {
+            throw err;
+        }
+        throw new Error(
+            "Image tag " + ImageTag + " not found in " + RepositoryName +
+            "; push it or set image.digest",
+        );
+    }
+    const digest = imageDetails[0].imageDigest;
+    return {
+        PhysicalResourceId: digest,
+        Data: { ImageDigest: digest, ImageReference: "@" + digest },
+    };
+};
+`;
+
+// The container image and the digest it runs
+interface ResolvedImage {
+    image: ecs.ContainerImage;
+    repository: ecr.IRepository;
+    digest: string;
+}
+
+export interface ServiceLoadBalancer {
+    nlb: elbv2.NetworkLoadBalancer;
+    listener: elbv2.NetworkListener;
+    targetGroup: elbv2.NetworkTargetGroup;
+    // Blue/green only: the replacement task set's listener and target group
+    testListener?: elbv2.NetworkListener;
+    greenTargetGroup?: elbv2.NetworkTargetGroup;
+}
+
+export interface QuiltFargateServiceProps {
+    // Prefix for physical resource names
+    namePrefix?: string;
+    container: ContainerConfig;
+    // Defaults to `repository` at `container.imageTag`
+    image?: ImageConfig;
+    // Repository of an "existing" image
+    repository?: ecr.IRepository;
+    environment?: { [name: string]: string };
+    secrets?: { [envVar: string]: ContainerSecretConfig };
+    network?: NetworkConfig;
+    accessLogs?: AccessLogsConfig;
+    deployment?: DeploymentConfig;
+    desiredCount?: number;
+    // Container Insights publishes the running task count
+    containerInsights?: boolean;
+    sidecars?: SidecarConfig[];
+    telemetry?: TelemetryConfig;
+    // Service name on traces; defaults to the construct id
+    serviceName?: string;
+    // False for an internal NLB, reachable only from the VPC
+    internetFacing?: boolean;
+    // Run in this service's VPC and cluster, behind its NLB on a listener
+    // of our own, instead of creating them
+    host?: QuiltFargateService;
+}
+
+// The package engine (or another backend) as a Fargate service behind an
+// internet-facing or internal NLB, in a new or existing VPC
+export class QuiltFargateService extends Construct {
+    readonly vpc: ec2.IVpc;
+
+    readonly cluster: ecs.Cluster;
+
+    readonly taskDefinition: ecs.FargateTaskDefinition;
+
+    // Repository the image is pulled from
+    readonly repository: ecr.IRepository;
+
+    // Digest of the image, resolved at deploy time unless pinned
+    readonly imageDigest: string;
+
+    // Role assumed by the package engine itself
+    readonly taskRole: iam.Role;
+
+    readonly service: ecs.FargateService;
+
+    readonly loadBalancer: ServiceLoadBalancer;
+
+    private readonly props: Required<
+        Pick<
+            QuiltFargateServiceProps,
+            "namePrefix" | "network" | "accessLogs" | "deployment"
+        >
+    > & QuiltFargateServiceProps;
+
+    private readonly containerConfig: ContainerConfig;
+
+    // Subnets chosen for the tasks; undefined uses the VPC's private subnets
+    private readonly serviceSubnets?: ec2.SubnetSelection;
+
+    constructor(scope: Construct, id: string, props: QuiltFargateServiceProps) {
+        super(scope, id);
+        this.props = {
+            ...props,
+            namePrefix: props.namePrefix ?? "",
+            network: props.network ?? DEFAULT_NETWORK,
+            accessLogs: props.accessLogs ?? DEFAULT_ACCESS_LOGS,
+            deployment: props.deployment ?? DEFAULT_DEPLOYMENT,
+        };
+        this.containerConfig = props.container;
+        const secrets = props.secrets ?? {};
+
+        const { network, host } = this.props;
+        if (host) {
+            this.vpc = host.vpc;
+            this.serviceSubnets = host.serviceSubnets;
+            this.cluster = host.cluster;
+        } else {
+            this.vpc = this.createVpc(network);
+            this.serviceSubnets = this.selectServiceSubnets(network);
+            if (network.vpcEndpoints) {
+                this.createVpcEndpoints(this.vpc, secrets);
+            }
+            this.cluster = new ecs.Cluster(this, "CdkQuiltFargateCluster", {
+                vpc: this.vpc,
+                containerInsights: props.containerInsights ?? false,
+            });
+        }
+        this.taskRole = new iam.Role(this, "CdkQuiltFargateTaskRole", {
+            assumedBy: new iam.ServicePrincipal("ecs-tasks.amazonaws.com"),
+        });
+        const image = this.resolveImage(props.image ?? DEFAULT_IMAGE);
+        this.repository = image.repository;
+        this.imageDigest = image.digest;
+        this.taskDefinition = this.createTaskDefinition(
+            image,
+            this.createContainerSecrets(secrets),
+        );
+        this.service = this.createFargateService();
+        this.loadBalancer = this.createNetworkLoadBalancer();
+    }
+
+    // Target tracking on task CPU/memory, step scaling on API traffic and
+    // scheduled capacity changes (minTasks: 0 scales to zero)
+    public addAutoScaling(
+        api: apigateway.RestApi,
+        scaling: ScalingConfig,
+    ): void {
+        const scalableTarget = this.service.autoScaleTaskCount({
+            minCapacity: scaling.minTasks,
+            maxCapacity: scaling.maxTasks,
+        });
+        const scaleInCooldown = cdk.Duration.seconds(
+            scaling.scaleInCooldownSeconds,
+        );
+        const scaleOutCooldown = cdk.Duration.seconds(
+            scaling.scaleOutCooldownSeconds,
+        );
+
+        if (scaling.cpuTargetPercent !== undefined) {
+            scalableTarget.scaleOnCpuUtilization("CpuScaling", {
+                targetUtilizationPercent: scaling.cpuTargetPercent,
+                scaleInCooldown,
+                scaleOutCooldown,
+            });
+        }
+        if (scaling.memoryTargetPercent !== undefined) {
+            scalableTarget.scaleOnMemoryUtilization("MemoryScaling", {
+                targetUtilizationPercent: scaling.memoryTargetPercent,
+                scaleInCooldown,
+                scaleOutCooldown,
+            });
+        }
+
+        const stepScaling = scaling.apiStepScaling;
+        if (stepScaling) {
+            const period = cdk.Duration.minutes(1);
+            const metric = stepScaling.metric === "latency"
+                ? api.metricLatency({ period, statistic: "Average" })
+                : api.metricCount({ period, statistic: "Sum" });
+            scalableTarget.scaleOnMetric("ApiStepScaling", {
+                metric,
+                scalingSteps: stepScaling.steps,
+                adjustmentType: appscaling.AdjustmentType.CHANGE_IN_CAPACITY,
+                cooldown: scaleOutCooldown,
+            });
+        }
+
+        for (const schedule of scaling.scheduled ?? []) {
+            scalableTarget.scaleOnSchedule(`Schedule${schedule.name}`, {
+                schedule: appscaling.Schedule.expression(schedule.schedule),
+                minCapacity: schedule.minTasks,
+                maxCapacity: schedule.maxTasks,
+                timeZone: schedule.timeZone
+                    ? cdk.TimeZone.of(schedule.timeZone)
+                    : undefined,
+            });
+        }
+    }
+
+    // Rolling deployments roll back on the circuit breaker or an alarm.
+    // Blue/green deployments go through CodeDeploy: new tasks get the test
+    // listener, a hook validates them, then production traffic shifts.
+    public configureDeployment(
+        api: apigateway.RestApi,
+        api5xxErrors: number,
+    ): void {
+        const { deployment } = this.props;
+        const loadBalancer = this.loadBalancer;
+        const { targetGroup, greenTargetGroup, testListener } = loadBalancer;
+        const alarms = this.createDeploymentAlarms(
+            api,
+            greenTargetGroup ? [targetGroup, greenTargetGroup] : [targetGroup],
+            api5xxErrors,
+        );
+        if (!greenTargetGroup || !testListener) {
+            this.service.enableDeploymentAlarms(
+                alarms.map((alarm) => alarm.alarmName),
+                { behavior: ecs.AlarmBehavior.ROLLBACK_ON_ALARM },
+            );
+            return;
+        }
+
+        const interval = cdk.Duration.minutes(deployment.shiftIntervalMinutes);
+        const trafficRouting = {
+            allAtOnce: () => codedeploy.TrafficRouting.allAtOnce(),
+            linear: () =>
+                codedeploy.TrafficRouting.timeBasedLinear({
+                    interval,
+                    percentage: deployment.shiftPercent,
+                }),
+            canary: () =>
+                codedeploy.TrafficRouting.timeBasedCanary({
+                    interval,
+                    percentage: deployment.shiftPercent,
+                }),
+        }[deployment.trafficShift]();
+        const deploymentGroup = new codedeploy.EcsDeploymentGroup(
+            this,
+            "CdkQuiltDeploymentGroup",
+            {
+                service: this.service,
+                deploymentConfig: new codedeploy.EcsDeploymentConfig(
+                    this,
+                    "CdkQuiltDeploymentConfig",
+                    { trafficRouting },
+                ),
+                blueGreenDeploymentConfig: {
+                    blueTargetGroup: targetGroup,
+                    greenTargetGroup,
+                    listener: loadBalancer.listener,
+                    testListener,
+                    terminationWaitTime: cdk.Duration.minutes(
+                        deployment.terminationWaitMinutes,
+                    ),
+                },
+                alarms,
+                autoRollback: {
+                    failedDeployment: true,
+                    stoppedDeployment: true,
+                    deploymentInAlarm: true,
+                },
+            },
+        );
+
+        // The hook reaches the test listener from inside the VPC, and is
+        // the only client the test listener admits
+        const hook = new lambda.Function(this, "CdkQuiltDeploymentHook", {
+            runtime: lambda.Runtime.NODEJS_20_X,
+            handler: "index.handler",
+            code: lambda.Code.fromInline(DEPLOYMENT_HOOK_CODE),
+            timeout: cdk.Duration.minutes(1),
+            vpc: this.vpc,
+            vpcSubnets: this.serviceSubnets,
+            environment: {
+                LOAD_BALANCER: loadBalancer.nlb.loadBalancerFullName,
+                TEST_PORT: String(deployment.testListenerPort),
+                VALIDATION_PATHS: JSON.stringify(deployment.validationPaths),
+            },
+        });
+        loadBalancer.nlb.connections.allowFrom(
+            hook,
+            ec2.Port.tcp(deployment.testListenerPort),
+        );
+        hook.addToRolePolicy(
+            new iam.PolicyStatement({
+                actions: ["codedeploy:PutLifecycleEventHookExecutionStatus"],
+                resources: [deploymentGroup.deploymentGroupArn],
+            }),
+        );
+        // DescribeNetworkInterfaces has no resource-level permissions
+        hook.addToRolePolicy(
+            new iam.PolicyStatement({
+                actions: ["ec2:DescribeNetworkInterfaces"],
+                resources: ["*"],
+            }),
+        );
+        hook.grantInvoke(deploymentGroup.role);
+
+        // Deployments are started with this AppSpec, filling in the new
+        // task definition ARN
+        new cdk.CfnOutput(this, "DeploymentGroupName", {
+            value: deploymentGroup.deploymentGroupName,
+        });
+        new cdk.CfnOutput(this, "AppSpecTemplate", {
+            value: cdk.Stack.of(this).toJsonString({
+                version: 0.0,
+                Resources: [
+                    {
+                        TargetService: {
+                            Type: "AWS::ECS::Service",
+                            Properties: {
+                                TaskDefinition: "<TASK_DEFINITION>",
+                                LoadBalancerInfo: {
+                                    ContainerName: CONTAINER_NAME,
+                                    ContainerPort: this.containerConfig.port,
+                                },
+                            },
+                        },
+                    },
+                ],
+                Hooks: [{ AfterAllowTestTraffic: hook.functionArn }],
+            }),
+        });
+    }
+
+    // Restarts the service's tasks when a referenced secret or parameter is
+    // written, so containers pick up rotated values. Secrets Manager writes
+    // arrive through CloudTrail, so the account needs a management event trail.
+    public addSecretRedeployTrigger(
+        errorHandling: ErrorHandlingConfig,
+        deadLetterQueue: sqs.IQueue,
+    ): void {
+        const redeployTask = new tasks.CallAwsService(
+            this,
+            "CdkQuiltForceNewDeployment",
+            {
+                service: "ecs",
+                action: "updateService",
+                parameters: {
+                    Cluster: this.cluster.clusterArn,
+                    Service: this.service.serviceName,
+                    ForceNewDeployment: true,
+                },
+                iamResources: [this.service.serviceArn],
+            },
+        );
+        addTaskRetry(redeployTask, errorHandling.taskRetry);
+        const stateMachineId = "CdkQuiltRedeployStateMachine";
+        const stateMachine = new sfn.StateMachine(this, stateMachineId, {
+            stateMachineName: this.physicalName(stateMachineId),
+            definitionBody: sfn.DefinitionBody.fromChainable(redeployTask),
+        });
+        const target = new targets.SfnStateMachine(
+            stateMachine,
+            targetProps(errorHandling, deadLetterQueue),
+        );
+
+        const refs = Object.values(this.props.secrets ?? {});
+        const secretIds = refs.flatMap((ref) => {
+            if (!ref.secret) {
+                return [];
+            }
+            // Callers may name the secret, or give its partial or complete
+            // ARN; a complete ARN ends in "-" and six random characters
+            const partialArn = ref.secret.startsWith("arn:")
+                ? ref.secret.replace(/-[A-Za-z0-9]{6}$/, "")
+                : this.secretPartialArn(ref.secret);
+            const name = ref.secret.startsWith("arn:")
+                ? partialArn.split(":secret:")[1]
+                : ref.secret;
+            return [
+                events.Match.exactString(name),
+                events.Match.exactString(partialArn),
+                events.Match.prefix(`${partialArn}-`),
+            ];
+        });
+        if (secretIds.length > 0) {
+            new events.Rule(this, "CdkQuiltSecretChangedRule", {
+                eventPattern: {
+                    source: ["aws.secretsmanager"],
+                    detail: {
+                        eventSource: ["secretsmanager.amazonaws.com"],
+                        eventName: ["PutSecretValue", "UpdateSecret"],
+                        requestParameters: {
+                            secretId: events.Match.anyOf(...secretIds),
+                        },
+                    },
+                },
+                targets: [target],
+            });
+        }
+
+        const parameterNames = refs.flatMap((ref) =>
+            ref.parameter ? [ref.parameter] : []
+        );
+        if (parameterNames.length > 0) {
+            new events.Rule(this, "CdkQuiltParameterChangedRule", {
+                eventPattern: {
+                    source: ["aws.ssm"],
+                    detailType: ["Parameter Store Change"],
+                    detail: {
+                        name: parameterNames,
+                        operation: ["Update"],
+                    },
+                },
+                targets: [target],
+            });
+        }
+    }
+
+    private physicalName(name: string): string {
+        return physicalName(this.props.namePrefix, name);
+    }
+
+    private createVpc(network: NetworkConfig): ec2.IVpc {
+        if (network.vpcId) {
+            return ec2.Vpc.fromLookup(this, "CdkQuiltFargateVpc", {
+                vpcId: network.vpcId,
+            });
+        }
+        return new ec2.Vpc(this, "CdkQuiltFargateVpc", {
+            maxAzs: network.maxAzs,
+            natGateways: network.natGateways,
+            // Without NAT gateways private subnets have no route out
+            subnetConfiguration: network.natGateways === 0
+                ? [
+                    { name: "Public", subnetType: ec2.SubnetType.PUBLIC },
+                    {
+                        name: "Private",
+                        subnetType: ec2.SubnetType.PRIVATE_ISOLATED,
+                    },
+                ]
+                : undefined,
+        });
+    }
+
+    private selectServiceSubnets(
+        network: NetworkConfig,
+    ): ec2.SubnetSelection | undefined {
+        if (!network.subnetIds) {
+            return undefined;
+        }
+        return {
+            subnets: network.subnetIds.map((subnetId, i) =>
+                ec2.Subnet.fromSubnetId(this, `ServiceSubnet${i}`, subnetId)
+            ),
+        };
+    }
+
+    // Endpoints for everything the task needs at startup: image pulls,
+    // logs, secrets and parameters, and role credentials
+    private createVpcEndpoints(
+        vpc: ec2.IVpc,
+        secrets: { [envVar: string]: ContainerSecretConfig },
+    ): void {
+        const subnets = this.serviceSubnets;
+        // ECR stores image layers in S3
+        vpc.addGatewayEndpoint("S3Endpoint", {
+            service: ec2.GatewayVpcEndpointAwsService.S3,
+            subnets: subnets ? [subnets] : undefined,
+        });
+        const services: [string, ec2.InterfaceVpcEndpointAwsService][] = [
+            ["EcrApi", ec2.InterfaceVpcEndpointAwsService.ECR],
+            ["EcrDocker", ec2.InterfaceVpcEndpointAwsService.ECR_DOCKER],
+            ["Logs", ec2.InterfaceVpcEndpointAwsService.CLOUDWATCH_LOGS],
+            [
+                "SecretsManager",
+                ec2.InterfaceVpcEndpointAwsService.SECRETS_MANAGER,
+            ],
+            ["Sts", ec2.InterfaceVpcEndpointAwsService.STS],
+        ];
+        if (Object.values(secrets).some((ref) => ref.parameter)) {
+            services.push(["Ssm", ec2.InterfaceVpcEndpointAwsService.SSM]);
+        }
+        // The blue/green hook finds the NLB and reports to CodeDeploy
+        if (this.props.deployment.mode === "blueGreen") {
+            services.push(
+                ["Ec2", ec2.InterfaceVpcEndpointAwsService.EC2],
+                ["CodeDeploy", ec2.InterfaceVpcEndpointAwsService.CODEDEPLOY],
+            );
+        }
+        for (const [id, service] of services) {
+            vpc.addInterfaceEndpoint(`${id}Endpoint`, { service, subnets });
+        }
+    }
+
+    // Imports each referenced secret/parameter; ECS grants the execution role
+    // read access (and KMS decrypt) to exactly these when the task starts
+    private createContainerSecrets(
+        secrets: { [envVar: string]: ContainerSecretConfig },
+    ): { [envVar: string]: ecs.Secret } {
+        const containerSecrets: { [envVar: string]: ecs.Secret } = {};
+        for (const [envVar, ref] of Object.entries(secrets)) {
+            const encryptionKey = ref.kmsKeyArn
+                ? kms.Key.fromKeyArn(this, `${envVar}Key`, ref.kmsKeyArn)
+                : undefined;
+            if (ref.secret) {
+                const secret = ref.secret.startsWith("arn:")
+                    ? secretsmanager.Secret.fromSecretAttributes(
+                        this,
+                        `${envVar}Secret`,
+                        { secretCompleteArn: ref.secret, encryptionKey },
+                    )
+                    : secretsmanager.Secret.fromSecretAttributes(
+                        this,
+                        `${envVar}Secret`,
+                        {
+                            secretPartialArn: this.secretPartialArn(ref.secret),
+                            encryptionKey,
+                        },
+                    );
+                containerSecrets[envVar] = ecs.Secret.fromSecretsManager(
+                    secret,
+                    ref.field,
+                );
+            } else {
+                const parameter = encryptionKey
+                    ? ssm.StringParameter.fromSecureStringParameterAttributes(
+                        this,
+                        `${envVar}Parameter`,
+                        { parameterName: ref.parameter!, encryptionKey },
+                    )
+                    : ssm.StringParameter.fromStringParameterName(
+                        this,
+                        `${envVar}Parameter`,
+                        ref.parameter!,
+                    );
+                containerSecrets[envVar] = ecs.Secret.fromSsmParameter(
+                    parameter,
+                );
+            }
+        }
+        return containerSecrets;
+    }
+
+    private secretPartialArn(secretName: string): string {
+        return cdk.Stack.of(this).formatArn({
+            service: "secretsmanager",
+            resource: "secret",
+            resourceName: secretName,
+            arnFormat: cdk.ArnFormat.COLON_RESOURCE_NAME,
+        });
+    }
+
+    private resolveImage(config: ImageConfig): ResolvedImage {
+        if (config.source === "asset") {
+            // Tagged with the hash of the build context, so every change to
+            // it rolls out a new task definition
+            const asset = new ecr_assets.DockerImageAsset(
+                this,
+                "CdkQuiltImageAsset",
+                {
+                    directory: config.directory,
+                    file: config.dockerfile,
+                    buildArgs: config.buildArgs,
+                    platform: ecr_assets.Platform.LINUX_ARM64,
+                },
+            );
+            const resolved = this.resolveImageTag(
+                asset.repository,
+                asset.imageTag,
+            );
+            this.addImageOutputs(asset.imageUri, resolved.digest);
+            return {
+                image: ecs.ContainerImage.fromDockerImageAsset(asset),
+                repository: asset.repository,
+                digest: resolved.digest,
+            };
+        }
+
+        const repository = config.source === "managed"
+            ? this.createRepository(config)
+            : this.props.repository;
+        if (!repository) {
+            throw new Error(
+                `QuiltFargateService needs a repository for existing images`,
+            );
+        }
+        const resolved = config.digest
+            ? { digest: config.digest, reference: `@${config.digest}` }
+            : this.resolveImageTag(repository, this.containerConfig.imageTag);
+        const imageUri = `${repository.repositoryUri}${resolved.reference}`;
+        this.addImageOutputs(imageUri, resolved.digest);
+        return {
+            image: ecs.ContainerImage.fromRegistry(imageUri),
+            repository,
+            digest: resolved.digest,
+        };
+    }
+
+    // Keeps scanned, recent images; RETAIN keeps images on stack deletion
+    private createRepository(config: ImageConfig): ecr.Repository {
+        const repository = new ecr.Repository(this, "CdkQuiltImageRepository", {
+            repositoryName: config.repositoryName,
+            imageScanOnPush: config.scanOnPush,
+            lifecycleRules: [
+                {
+                    description: "Expire untagged images",
+                    tagStatus: ecr.TagStatus.UNTAGGED,
+                    maxImageAge: cdk.Duration.days(config.untaggedExpiryDays),
+                },
+                {
+                    description: "Keep the newest images",
+                    tagStatus: ecr.TagStatus.ANY,
+                    maxImageCount: config.maxImageCount,
+                },
+            ],
+            removalPolicy: cdk.RemovalPolicy.RETAIN,
+        });
+        new cdk.CfnOutput(this, "ImageRepositoryUri", {
+            value: repository.repositoryUri,
+        });
+        return repository;
+    }
+
+    // Looks the tag up when the stack is deployed with a new tag, so the
+    // task definition keeps running the same image until then. A missing
+    // tag fails the deploy rather than running unpinned
+    private resolveImageTag(
+        repository: ecr.IRepository,
+        tag: string,
+    ): { digest: string; reference: string } {
+        const handler = new lambda.Function(this, "CdkQuiltImageDigestHandler", {
+            runtime: lambda.Runtime.NODEJS_20_X,
+            handler: "index.handler",
+            code: lambda.Code.fromInline(IMAGE_DIGEST_CODE),
+            timeout: cdk.Duration.seconds(30),
+        });
+        repository.grant(handler, "ecr:DescribeImages");
+        const provider = new cr.Provider(this, "CdkQuiltImageDigestProvider", {
+            onEventHandler: handler,
+        });
+        const resource = new cdk.CustomResource(this, "CdkQuiltImageDigest", {
+            serviceToken: provider.serviceToken,
+            properties: {
+                RepositoryName: repository.repositoryName,
+                ImageTag: tag,
+            },
+        });
+        return {
+            digest: resource.getAttString("ImageDigest"),
+            reference: resource.getAttString("ImageReference"),
+        };
+    }
+
+    private addImageOutputs(imageUri: string, digest: string): void {
+        new cdk.CfnOutput(this, "ImageUri", { value: imageUri });
+        new cdk.CfnOutput(this, "ImageDigest", { value: digest });
+    }
+
+    private createTaskDefinition(
+        image: ResolvedImage,
+        secrets: { [envVar: string]: ecs.Secret },
+    ): ecs.FargateTaskDefinition {
+        // Image pull and log permissions are granted by the task definition
+        // for its own repository and log group
+        const executionRole = new iam.Role(
+            this,
+            "CdkQuiltFargateExecutionRole",
+            {
+                assumedBy: new iam.ServicePrincipal("ecs-tasks.amazonaws.com"),
+            },
+        );
+        const logGroup = new logs.LogGroup(this, "CdkQuiltFargateLogGroup", {
+            retention: this.containerConfig.logRetention,
+        });
+        const taskDefinition = new ecs.FargateTaskDefinition(
+            this,
+            "CdkQuiltFargateTaskDef",
+            {
+                memoryLimitMiB: this.containerConfig.memory,
+                cpu: this.containerConfig.cpu,
+                executionRole,
+                taskRole: this.taskRole,
+                runtimePlatform: {
+                    cpuArchitecture: ecs.CpuArchitecture.ARM64,
+                },
+            },
+        );
+
+        // Registry images are not granted a pull like ECR images are
+        image.repository.grantPull(executionRole);
+        const telemetry = this.props.telemetry ?? DEFAULT_TELEMETRY;
+        const engine = taskDefinition.addContainer(CONTAINER_NAME, {
+            image: image.image,
+            environment: {
+                ...this.props.environment,
+                ...this.tracingEnvironment(telemetry),
+            },
+            secrets,
+            portMappings: [
+                {
+                    containerPort: this.containerConfig.port,
+                    hostPort: this.containerConfig.port,
+                    protocol: ecs.Protocol.TCP,
+                },
+            ],
+            logging: telemetry.logRouter === "firelens"
+                ? this.fireLensLogDriver(logGroup, telemetry)
+                : ecs.LogDrivers.awsLogs({
+                    logGroup,
+                    streamPrefix: "CdkQuiltFargate",
+                }),
+            // Add container health check
+            healthCheck: {
+                command: [
+                    "CMD-SHELL",
+                    `curl -f http://localhost:${this.containerConfig.healthCheckPort}${this.containerConfig.healthCheckPath} || exit 1`,
+                ],
+                interval: cdk.Duration.seconds(30),
+                timeout: cdk.Duration.seconds(5),
+                retries: 3,
+                startPeriod: cdk.Duration.seconds(60),
+            },
+        });
+        // Added after the engine, which must stay the task's default container
+        if (telemetry.logRouter === "firelens") {
+            this.addLogRouter(taskDefinition, logGroup);
+        }
+        if (telemetry.traceCollector !== "none") {
+            this.addTraceCollector(
+                taskDefinition,
+                engine,
+                logGroup,
+                telemetry.traceCollector,
+            );
+        }
+        for (const sidecar of this.props.sidecars ?? []) {
+            const container = taskDefinition.addContainer(sidecar.name, {
+                image: ecs.ContainerImage.fromRegistry(sidecar.image),
+                cpu: sidecar.cpu,
+                memoryReservationMiB: sidecar.memoryReservation,
+                essential: sidecar.essential,
+                environment: sidecar.environment,
+                command: sidecar.command,
+                portMappings: sidecar.ports.map((port) => ({
+                    containerPort: port,
+                    protocol: ecs.Protocol.TCP,
+                })),
+                logging: ecs.LogDrivers.awsLogs({
+                    logGroup,
+                    streamPrefix: sidecar.name,
+                }),
+            });
+            if (sidecar.startBeforeEngine) {
+                engine.addContainerDependencies({
+                    container,
+                    condition: ecs.ContainerDependencyCondition.START,
+                });
+            }
+        }
+
+        return taskDefinition;
+    }
+
+    // Points X-Ray and OpenTelemetry SDKs in the engine at the collector,
+    // which continues the trace API Gateway passes in X-Amzn-Trace-Id
+    private tracingEnvironment(
+        telemetry: TelemetryConfig,
+    ): { [name: string]: string } {
+        if (telemetry.traceCollector === "none") {
+            return {};
+        }
+        const serviceName = this.props.serviceName ?? this.node.id;
+        return {
+            AWS_XRAY_DAEMON_ADDRESS: "localhost:2000",
+            OTEL_SERVICE_NAME: serviceName,
+            ...(telemetry.traceCollector === "adot"
+                ? {
+                    OTEL_EXPORTER_OTLP_ENDPOINT: "http://localhost:4317",
+                    OTEL_PROPAGATORS: "xray,tracecontext,baggage",
+                }
+                : {}),
+        };
+    }
+
+    // Receives traces on localhost (X-Ray UDP 2000; OTLP 4317/4318 for
+    // ADOT) and sends them to X-Ray with the task role
+    private addTraceCollector(
+        taskDefinition: ecs.FargateTaskDefinition,
+        engine: ecs.ContainerDefinition,
+        logGroup: logs.ILogGroup,
+        collector: "adot" | "xray",
+    ): void {
+        const adot = collector === "adot";
+        const container = taskDefinition.addContainer(
+            adot ? "otel-collector" : "xray-daemon",
+            {
+                image: ecs.ContainerImage.fromRegistry(
+                    adot ? ADOT_COLLECTOR_IMAGE : XRAY_DAEMON_IMAGE,
+                ),
+                command: adot
+                    ? ["--config=/etc/ecs/ecs-default-config.yaml"]
+                    : undefined,
+                cpu: 32,
+                memoryReservationMiB: 64,
+                essential: false,
+                portMappings: [
+                    { containerPort: 2000, protocol: ecs.Protocol.UDP },
+                    ...(adot
+                        ? [4317, 4318].map((containerPort) => ({
+                            containerPort,
+                            protocol: ecs.Protocol.TCP,
+                        }))
+                        : []),
+                ],
+                logging: ecs.LogDrivers.awsLogs({
+                    logGroup,
+                    streamPrefix: collector,
+                }),
+            },
+        );
+        engine.addContainerDependencies({
+            container,
+            condition: ecs.ContainerDependencyCondition.START,
+        });
+        // X-Ray does not support resource-level permissions
+        this.taskRole.addToPrincipalPolicy(
+            new iam.PolicyStatement({
+                actions: [
+                    "xray:PutTraceSegments",
+                    "xray:PutTelemetryRecords",
+                    "xray:GetSamplingRules",
+                    "xray:GetSamplingTargets",
+                    "xray:GetSamplingStatisticSummaries",
+                ],
+                resources: ["*"],
+            }),
+        );
+        if (adot) {
+            const { region, account } = cdk.Stack.of(this);
+            this.taskRole.addToPrincipalPolicy(
+                new iam.PolicyStatement({
+                    actions: [
+                        "logs:CreateLogGroup",
+                        "logs:CreateLogStream",
+                        "logs:PutLogEvents",
+                        "logs:DescribeLogStreams",
+                    ],
+                    resources: [
+                        `arn:${cdk.Aws.PARTITION}:logs:${region}:${account}:log-group:${ADOT_METRICS_LOG_GROUP}:*`,
+                    ],
+                }),
+            );
+        }
+    }
+
+    // Fluent Bit sidecar that routes the engine's logs
+    private addLogRouter(
+        taskDefinition: ecs.FargateTaskDefinition,
+        logGroup: logs.ILogGroup,
+    ): void {
+        taskDefinition.addFirelensLogRouter("log-router", {
+            image: ecs.ContainerImage.fromRegistry(FLUENT_BIT_IMAGE),
+            firelensConfig: { type: ecs.FirelensLogRouterType.FLUENTBIT },
+            cpu: 32,
+            memoryReservationMiB: 64,
+            essential: true,
+            logging: ecs.LogDrivers.awsLogs({
+                logGroup,
+                streamPrefix: "log-router",
+            }),
+        });
+    }
+
+    // Without an output of its own, the engine keeps logging to the
+    // service's log group through the router
+    private fireLensLogDriver(
+        logGroup: logs.ILogGroup,
+        telemetry: TelemetryConfig,
+    ): ecs.LogDriver {
+        if (telemetry.fireLensOutput) {
+            return ecs.LogDrivers.firelens({
+                options: telemetry.fireLensOutput,
+            });
+        }
+        // Fluent Bit writes with the task role
+        logGroup.grantWrite(this.taskRole);
+        return ecs.LogDrivers.firelens({
+            options: {
+                Name: "cloudwatch_logs",
+                region: cdk.Stack.of(this).region,
+                log_group_name: logGroup.logGroupName,
+                log_stream_prefix: "CdkQuiltFargate/",
+                auto_create_group: "false",
+            },
+        });
+    }
+
+    private createFargateService(): ecs.FargateService {
+        const deploymentMode = this.props.deployment.mode;
+        // Create security group for the service
+        const serviceSecurityGroup = new ec2.SecurityGroup(
+            this,
+            "ServiceSecurityGroup",
+            {
+                vpc: this.vpc,
+                allowAllOutbound: true,
+                description: "Security group for Fargate service",
+            },
+        );
+
+        // Inbound traffic is only allowed from the NLB's security group,
+        // added in createNetworkLoadBalancer
+
+        return new ecs.FargateService(this, "CdkQuiltFargateService", {
+            cluster: this.cluster,
+            taskDefinition: this.taskDefinition,
+            desiredCount: this.props.desiredCount,
+            assignPublicIp: false,
+            vpcSubnets: this.serviceSubnets,
+            deploymentController: {
+                type: deploymentMode === "blueGreen"
+                    ? ecs.DeploymentControllerType.CODE_DEPLOY
+                    : ecs.DeploymentControllerType.ECS,
+            },
+            // CodeDeploy rolls back blue/green deployments itself
+            circuitBreaker: deploymentMode === "blueGreen"
+                ? undefined
+                : { enable: true, rollback: true },
+            securityGroups: [serviceSecurityGroup],
+        });
+    }
+
+    private createNetworkLoadBalancer(): ServiceLoadBalancer {
+        const { vpc, service: fargateService } = this;
+        const { deployment, host } = this.props;
+        const internetFacing = this.props.internetFacing ?? true;
+        const nlb = host
+            ? host.loadBalancer.nlb
+            : this.createNlb(internetFacing);
+        // Clients come through the API's VPC link, so even an internet-facing
+        // NLB only admits the VPC; the API's auth, WAF and throttling cannot
+        // be bypassed through the NLB's DNS name
+        nlb.connections.allowFrom(
+            ec2.Peer.ipv4(vpc.vpcCidrBlock),
+            ec2.Port.tcp(this.containerConfig.port),
+        );
+        fargateService.connections.allowFrom(
+            nlb,
+            ec2.Port.tcp(this.containerConfig.port),
+            "Allow inbound from NLB",
+        );
+
+        // Listeners are children of the NLB, so a hosted service's need its id
+        const listener = nlb.addListener(
+            host ? `${this.node.id}Listener` : "Listener",
+            { port: this.containerConfig.port },
+        );
+
+        const healthCheck: elbv2.HealthCheck = {
+            path: this.containerConfig.healthCheckPath,
+            interval: cdk.Duration.seconds(30),
+            timeout: cdk.Duration.seconds(5),
+            healthyThresholdCount: 2,
+            unhealthyThresholdCount: 2,
+            // Added additional health check settings
+            protocol: elbv2.Protocol.HTTP,
+            port: String(this.containerConfig.healthCheckPort),
+        };
+        const targetGroup = listener.addTargets("FargateService", {
+            port: this.containerConfig.port,
+            targets: [fargateService],
+            healthCheck,
+        });
+        if (deployment.mode !== "blueGreen") {
+            return { nlb, listener, targetGroup };
+        }
+
+        // CodeDeploy registers the replacement tasks here and swaps the
+        // listeners' target groups as traffic shifts
+        const greenTargetGroup = new elbv2.NetworkTargetGroup(
+            this,
+            "FargateServiceGreen",
+            {
+                vpc,
+                port: this.containerConfig.port,
+                targetType: elbv2.TargetType.IP,
+                healthCheck,
+            },
+        );
+        // The test listener's only client, the deployment hook, is let in
+        // by configureDeployment
+        const testListener = nlb.addListener("TestListener", {
+            port: deployment.testListenerPort,
+            defaultTargetGroups: [greenTargetGroup],
+        });
+        return { nlb, listener, targetGroup, testListener, greenTargetGroup };
+    }
+
+    private createNlb(internetFacing: boolean): elbv2.NetworkLoadBalancer {
+        const { accessLogs } = this.props;
+        const nlbSecurityGroup = new ec2.SecurityGroup(
+            this,
+            "NlbSecurityGroup",
+            {
+                vpc: this.vpc,
+                allowAllOutbound: false,
+                description: "Security group for the service NLB",
+            },
+        );
+        const nlb = new elbv2.NetworkLoadBalancer(this, "CdkQuiltNLB", {
+            vpc: this.vpc,
+            internetFacing,
+            crossZoneEnabled: true,
+            loadBalancerName: this.physicalName("quilt-nlb"),
+            securityGroups: [nlbSecurityGroup],
+        });
+        if (accessLogs.enabled) {
+            this.enableAccessLogs(nlb, accessLogs);
+        }
+        return nlb;
+    }
+
+    // Sets the access log attributes directly, as NetworkLoadBalancer's
+    // logAccessLogs needs a concrete region
+    private enableAccessLogs(
+        nlb: elbv2.NetworkLoadBalancer,
+        accessLogs: AccessLogsConfig,
+    ) {
+        const prefix = accessLogs.prefix ?? "";
+        if (accessLogs.bucketName) {
+            nlb.setAttribute("access_logs.s3.enabled", "true");
+            nlb.setAttribute("access_logs.s3.bucket", accessLogs.bucketName);
+            nlb.setAttribute("access_logs.s3.prefix", prefix);
+            return;
+        }
+
+        const { region, account } = cdk.Stack.of(this);
+        const bucket = new s3.Bucket(this, "CdkQuiltNLBLogBucket", {
+            removalPolicy: cdk.RemovalPolicy.DESTROY,
+            autoDeleteObjects: true,
+            bucketName: this.physicalName(
+                `cdkquiltnlb-access-logs-${region}-${account}`,
+            ),
+        });
+        const logs = bucket.arnForObjects(
+            `${prefix ? prefix + "/" : ""}AWSLogs/${account}/*`,
+        );
+        const logDelivery = new iam.ServicePrincipal("delivery.logs.amazonaws.com");
+        bucket.addToResourcePolicy(
+            new iam.PolicyStatement({
+                principals: [logDelivery],
+                actions: ["s3:PutObject"],
+                resources: [logs],
+                conditions: {
+                    StringEquals: { "s3:x-amz-acl": "bucket-owner-full-control" },
+                },
+            }),
+        );
+        bucket.addToResourcePolicy(
+            new iam.PolicyStatement({
+                principals: [logDelivery],
+                actions: ["s3:GetBucketAcl"],
+                resources: [bucket.bucketArn],
+            }),
+        );
+        // Regions that predate the service principal deliver from a
+        // regional ELB account
+        bucket.addToResourcePolicy(
+            new iam.PolicyStatement({
+                principals: [
+                    new iam.ArnPrincipal(this.elbAccountPrincipalArn()),
+                    new iam.ServicePrincipal(
+                        "logdelivery.elasticloadbalancing.amazonaws.com",
+                    ),
+                ],
+                actions: ["s3:PutObject"],
+                resources: [logs],
+            }),
+        );
+
+        nlb.setAttribute("access_logs.s3.enabled", "true");
+        nlb.setAttribute("access_logs.s3.bucket", bucket.bucketName);
+        nlb.setAttribute("access_logs.s3.prefix", prefix);
+        // The ELB checks bucket access when the attribute is set
+        nlb.node.addDependency(bucket.policy!);
+    }
+
+    // The regional ELB account when known. If the region is only known at
+    // deploy time, a mapping picks it, with this account (a no-op grant)
+    // for regions that only use the service principal.
+    private elbAccountPrincipalArn(): string {
+        const { region, account } = cdk.Stack.of(this);
+        let elbAccount: string;
+        if (!cdk.Token.isUnresolved(region)) {
+            elbAccount = RegionInfo.get(region).elbv2Account ?? account;
+        } else {
+            const mapping = new cdk.CfnMapping(this, "ElbAccountMap", {
+                mapping: Object.fromEntries(
+                    Object.entries(RegionInfo.regionMap(FactName.ELBV2_ACCOUNT))
+                        .filter(([, elbv2Account]) => elbv2Account)
+                        .map(([name, elbv2Account]) => [
+                            name,
+                            { account: elbv2Account },
+                        ]),
+                ),
+            });
+            elbAccount = mapping.findInMap(cdk.Aws.REGION, "account", account);
+        }
+        return `arn:${cdk.Aws.PARTITION}:iam::${elbAccount}:root`;
+    }
+
+    // Alarms that roll a deployment back: unhealthy targets or API 5xx
+    // errors for two consecutive minutes
+    private createDeploymentAlarms(
+        api: apigateway.RestApi,
+        targetGroups: elbv2.NetworkTargetGroup[],
+        api5xxErrors: number,
+    ): cloudwatch.Alarm[] {
+        const period = cdk.Duration.minutes(1);
+        const alarm = (
+            id: string,
+            metric: cloudwatch.IMetric,
+            threshold: number,
+        ) =>
+            new cloudwatch.Alarm(this, `CdkQuiltDeploy${id}Alarm`, {
+                alarmName: this.physicalName(`CdkQuiltDeploy${id}`),
+                metric,
+                threshold,
+                comparisonOperator:
+                    cloudwatch.ComparisonOperator.GREATER_THAN_OR_EQUAL_TO_THRESHOLD,
+                evaluationPeriods: 2,
+                treatMissingData: cloudwatch.TreatMissingData.NOT_BREACHING,
+            });
+        return [
+            ...targetGroups.map((targetGroup, i) =>
+                alarm(
+                    `UnhealthyHosts${i}`,
+                    targetGroup.metrics.unHealthyHostCount({
+                        period,
+                        statistic: "Maximum",
+                    }),
+                    1,
+                )
+            ),
+            alarm(
+                "Api5xx",
+                api.metricServerError({ period, statistic: "Sum" }),
+                Math.max(api5xxErrors, 1),
+            ),
+        ];
+    }
+}
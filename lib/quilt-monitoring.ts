@@ -0,0 +1,181 @@
+import * as apigateway from "aws-cdk-lib/aws-apigateway";
+import * as cdk from "aws-cdk-lib";
+import * as cloudwatch from "aws-cdk-lib/aws-cloudwatch";
+import * as cloudwatch_actions from "aws-cdk-lib/aws-cloudwatch-actions";
+import * as ecs from "aws-cdk-lib/aws-ecs";
+import * as elbv2 from "aws-cdk-lib/aws-elasticloadbalancingv2";
+import * as sfn from "aws-cdk-lib/aws-stepfunctions";
+import * as sns from "aws-cdk-lib/aws-sns";
+
+import { Construct } from "constructs";
+import { MonitoringConfig } from "./config";
+import { physicalName } from "./shared";
+
+export interface QuiltMonitoringProps {
+    // Prefix for physical resource names
+    namePrefix?: string;
+    monitoring: MonitoringConfig;
+    topic: sns.ITopic;
+    api: apigateway.RestApi;
+    targetGroup: elbv2.NetworkTargetGroup;
+    cluster: ecs.Cluster;
+    service: ecs.FargateService;
+    stateMachines: sfn.StateMachine[];
+}
+
+// Dashboard and alarms over the API, NLB, service and state machines.
+// Alarms notify the topic when they fire and when they clear.
+export class QuiltMonitoring extends Construct {
+    private readonly namePrefix: string;
+
+    constructor(scope: Construct, id: string, props: QuiltMonitoringProps) {
+        super(scope, id);
+        this.namePrefix = props.namePrefix ?? "";
+        const {
+            monitoring,
+            topic,
+            api,
+            targetGroup,
+            cluster,
+            service: fargateService,
+            stateMachines,
+        } = props;
+        const period = cdk.Duration.minutes(monitoring.periodMinutes);
+        const { thresholds } = monitoring;
+        const api5xx = api.metricServerError({ period, statistic: "Sum" });
+        const api4xx = api.metricClientError({ period, statistic: "Sum" });
+        const latencyP50 = api.metricLatency({ period, statistic: "p50" });
+        const latencyP99 = api.metricLatency({ period, statistic: "p99" });
+        const healthyHosts = targetGroup.metrics.healthyHostCount({ period });
+        const unhealthyHosts = targetGroup.metrics.unHealthyHostCount({
+            period,
+        });
+        const cpu = fargateService.metricCpuUtilization({ period });
+        const memory = fargateService.metricMemoryUtilization({ period });
+        const runningTasks = new cloudwatch.Metric({
+            namespace: "ECS/ContainerInsights",
+            metricName: "RunningTaskCount",
+            dimensionsMap: {
+                ClusterName: cluster.clusterName,
+                ServiceName: fargateService.serviceName,
+            },
+            statistic: "Minimum",
+            period,
+        });
+        // Metric ids must be unique within the shared graph
+        const failures = stateMachines.map((stateMachine, i) =>
+            new cloudwatch.MathExpression({
+                expression: `failed${i} + timedOut${i} + aborted${i}`,
+                usingMetrics: {
+                    [`failed${i}`]: stateMachine.metricFailed({ period }),
+                    [`timedOut${i}`]: stateMachine.metricTimedOut({ period }),
+                    [`aborted${i}`]: stateMachine.metricAborted({ period }),
+                },
+                label: stateMachine.node.id.replace(/^CdkQuilt/, ""),
+                period,
+            })
+        );
+
+        const alarms: cloudwatch.Alarm[] = [];
+        if (monitoring.alarms) {
+            const alarm = (
+                id: string,
+                metric: cloudwatch.IMetric,
+                threshold: number,
+                comparisonOperator: cloudwatch.ComparisonOperator,
+                options: Partial<cloudwatch.CreateAlarmOptions> = {},
+            ) => {
+                const created = new cloudwatch.Alarm(
+                    this,
+                    `CdkQuilt${id}Alarm`,
+                    {
+                        metric,
+                        alarmName: this.physicalName(`CdkQuilt${id}`),
+                        threshold,
+                        comparisonOperator,
+                        evaluationPeriods: monitoring.evaluationPeriods,
+                        treatMissingData:
+                            cloudwatch.TreatMissingData.NOT_BREACHING,
+                        ...options,
+                    },
+                );
+                created.addAlarmAction(new cloudwatch_actions.SnsAction(topic));
+                created.addOkAction(new cloudwatch_actions.SnsAction(topic));
+                alarms.push(created);
+            };
+            const atLeast =
+                cloudwatch.ComparisonOperator.GREATER_THAN_OR_EQUAL_TO_THRESHOLD;
+            const above = cloudwatch.ComparisonOperator.GREATER_THAN_THRESHOLD;
+            alarm("Api5xx", api5xx, thresholds.api5xxErrors, atLeast);
+            alarm("Api4xx", api4xx, thresholds.api4xxErrors, atLeast);
+            alarm("ApiLatency", latencyP99, thresholds.apiLatencyMs, above);
+            alarm(
+                "UnhealthyHosts",
+                unhealthyHosts,
+                thresholds.unhealthyHosts,
+                atLeast,
+            );
+            alarm("ServiceCpu", cpu, thresholds.cpuPercent, above);
+            alarm("ServiceMemory", memory, thresholds.memoryPercent, above);
+            if (thresholds.minRunningTasks > 0) {
+                alarm(
+                    "RunningTasks",
+                    runningTasks,
+                    thresholds.minRunningTasks,
+                    cloudwatch.ComparisonOperator.LESS_THAN_THRESHOLD,
+                    // No data means no tasks are reporting
+                    { treatMissingData: cloudwatch.TreatMissingData.BREACHING },
+                );
+            }
+            stateMachines.forEach((stateMachine, i) =>
+                alarm(
+                    `${stateMachine.node.id.replace(/^CdkQuilt/, "")}Failures`,
+                    failures[i],
+                    thresholds.stateMachineFailures,
+                    atLeast,
+                    { evaluationPeriods: 1 },
+                )
+            );
+        }
+
+        if (!monitoring.dashboard) {
+            return;
+        }
+        const dashboard = new cloudwatch.Dashboard(
+            this,
+            "CdkQuiltDashboard",
+            { dashboardName: this.physicalName("CdkQuiltFargate") },
+        );
+        const graph = (
+            title: string,
+            left: cloudwatch.IMetric[],
+            right: cloudwatch.IMetric[] = [],
+        ) => new cloudwatch.GraphWidget({ title, left, right, width: 8 });
+        dashboard.addWidgets(
+            graph("API errors", [api4xx, api5xx]),
+            graph("API latency (ms)", [latencyP50, latencyP99]),
+            graph("NLB targets", [healthyHosts, unhealthyHosts]),
+        );
+        dashboard.addWidgets(
+            graph("Service CPU / memory (%)", [cpu, memory]),
+            graph("Running tasks", [runningTasks]),
+            graph("State machine failures", failures),
+        );
+        if (alarms.length > 0) {
+            dashboard.addWidgets(
+                new cloudwatch.AlarmStatusWidget({
+                    title: "Alarms",
+                    alarms,
+                    width: 24,
+                }),
+            );
+        }
+        new cdk.CfnOutput(this, "DashboardName", {
+            value: dashboard.dashboardName,
+        });
+    }
+
+    private physicalName(name: string): string {
+        return physicalName(this.namePrefix, name);
+    }
+}
@@ -0,0 +1,37 @@
+import * as cdk from "aws-cdk-lib";
+import * as sfn from "aws-cdk-lib/aws-stepfunctions";
+import * as sqs from "aws-cdk-lib/aws-sqs";
+import * as targets from "aws-cdk-lib/aws-events-targets";
+
+import { ErrorHandlingConfig, TaskRetryConfig } from "./config";
+
+// Prefixes a physical resource name so environments can share an account
+export function physicalName(namePrefix: string, name: string): string {
+    return namePrefix ? `${namePrefix}-${name}` : name;
+}
+
+// Retry and dead-letter settings shared by every EventBridge target
+export function targetProps(
+    errorHandling: ErrorHandlingConfig,
+    deadLetterQueue: sqs.IQueue,
+): targets.TargetBaseProps {
+    return {
+        deadLetterQueue,
+        retryAttempts: errorHandling.targetRetryAttempts,
+        maxEventAge: cdk.Duration.hours(errorHandling.maxEventAgeHours),
+    };
+}
+
+export function addTaskRetry(
+    task: sfn.TaskStateBase | sfn.CustomState,
+    taskRetry: TaskRetryConfig,
+    errors: string[] = [sfn.Errors.ALL],
+): void {
+    const { maxAttempts, intervalSeconds, backoffRate } = taskRetry;
+    task.addRetry({
+        errors,
+        maxAttempts,
+        interval: cdk.Duration.seconds(intervalSeconds),
+        backoffRate,
+    });
+}
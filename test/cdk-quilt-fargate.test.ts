@@ -1,17 +1,1889 @@
-// import * as cdk from 'aws-cdk-lib';
-// import { Template } from 'aws-cdk-lib/assertions';
-// import * as CdkQuiltFargate from '../lib/cdk-quilt-fargate-stack';
-
-// example test. To run these tests, uncomment this file along with the
-// example resource in lib/cdk-quilt-fargate-stack.ts
-test('SQS Queue Created', () => {
-//   const app = new cdk.App();
-//     // WHEN
-//   const stack = new CdkQuiltFargate.CdkQuiltFargateStack(app, 'MyTestStack');
-//     // THEN
-//   const template = Template.fromStack(stack);
-
-//   template.hasResourceProperties('AWS::SQS::Queue', {
-//     VisibilityTimeout: 300
-//   });
+import * as cdk from "aws-cdk-lib";
+import * as iam from "aws-cdk-lib/aws-iam";
+import * as s3 from "aws-cdk-lib/aws-s3";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { Match, Template } from "aws-cdk-lib/assertions";
+import * as CdkQuiltFargate from "../lib/cdk-quilt-fargate-stack";
+import {
+    DEFAULT_EVENT_BUS,
+    QuiltFargateConfig,
+    QuiltFargateConfigInput,
+    validateConfig,
+} from "../lib/config";
+
+const input: QuiltFargateConfigInput = {
+    email: "test@example.com",
+    projectName: "package-engine",
+    zoneDomain: "example.com",
+    zoneID: "Z0000000000000000000",
+    container: { port: 8080, cpu: 512, memory: 1024 },
+};
+const config: QuiltFargateConfig = validateConfig(input);
+
+function synth(
+    overrides: Partial<QuiltFargateConfig> = {},
+    env: cdk.Environment = {
+        account: "123456789012",
+        region: "us-east-1",
+    },
+): Template {
+    const app = new cdk.App();
+    const stack = new CdkQuiltFargate.CdkQuiltFargateStack(app, "MyTestStack", {
+        config: { ...config, ...overrides },
+        env,
+    });
+    return Template.fromStack(stack);
+}
+
+describe("CdkQuiltFargateStack", () => {
+    const template = synth();
+
+    test("sizes the task definition from config", () => {
+        template.hasResourceProperties("AWS::ECS::TaskDefinition", {
+            Cpu: "512",
+            Memory: "1024",
+        });
+    });
+
+    test("uses the configured port for the NLB listener", () => {
+        template.hasResourceProperties(
+            "AWS::ElasticLoadBalancingV2::Listener",
+            { Port: 8080 },
+        );
+    });
+
+    test("deploys the API to the default stage", () => {
+        template.hasResourceProperties("AWS::ApiGateway::Stage", {
+            StageName: "prod",
+        });
+    });
+
+    test("keeps construct ids in logical IDs", () => {
+        expect(
+            Object.keys(template.findResources("AWS::SQS::Queue")),
+        ).toEqual([expect.stringMatching(/^EventsCdkQuiltEventsDeadLetterQueue/)]);
+        expect(
+            Object.keys(template.findResources("AWS::EC2::VPC")),
+        ).toEqual([expect.stringMatching(/^ServiceCdkQuiltFargateVpc/)]);
+    });
+
+    test("rejects invalid config passed directly", () => {
+        expect(() =>
+            synth({
+                container: { ...config.container, memory: 512 },
+            })
+        ).toThrow(/not valid for cpu 512/);
+    });
+});
+
+describe("container images", () => {
+    function containerImage(template: Template): unknown {
+        const definitions = Object.values(
+            template.findResources("AWS::ECS::TaskDefinition"),
+        );
+        return definitions[0].Properties.ContainerDefinitions[0].Image;
+    }
+
+    test("resolves the tag of an existing repository to a digest", () => {
+        const template = synth();
+        template.hasResourceProperties("AWS::CloudFormation::CustomResource", {
+            RepositoryName: "package-engine",
+            ImageTag: "latest",
+        });
+        expect(JSON.stringify(containerImage(template))).toMatch(
+            /"\/package-engine",\{"Fn::GetAtt":\["ServiceCdkQuiltImageDigest[0-9A-F]{8}","ImageReference"\]\}/,
+        );
+        template.hasOutput("ImageDigest", {
+            Value: {
+                "Fn::GetAtt": [
+                    Match.stringLikeRegexp("^ServiceCdkQuiltImageDigest"),
+                    "ImageDigest",
+                ],
+            },
+        });
+    });
+
+    test("fails the deploy when the tag cannot be resolved", () => {
+        const template = synth();
+        const handlers = Object.values(
+            template.findResources("AWS::Lambda::Function", {
+                Properties: {
+                    Code: {
+                        ZipFile: Match.stringLikeRegexp("DescribeImagesCommand"),
+                    },
+                },
+            }),
+        );
+        expect(handlers).toHaveLength(1);
+        const code = handlers[0].Properties.Code.ZipFile;
+        expect(code).toContain("push it or set image.digest");
+        expect(code).not.toContain("unresolved");
+    });
+
+    test("pins a configured digest", () => {
+        const digest = `sha256:${"0".repeat(64)}`;
+        const template = synth({ image: { ...config.image, digest } });
+        template.resourceCountIs("AWS::CloudFormation::CustomResource", 0);
+        expect(JSON.stringify(containerImage(template))).toContain(
+            `/package-engine@${digest}`,
+        );
+        template.hasOutput("ImageDigest", { Value: digest });
+    });
+
+    test("creates a managed repository with lifecycle rules", () => {
+        const template = synth({
+            namePrefix: "dev",
+            image: { ...config.image, source: "managed", maxImageCount: 10 },
+        });
+        template.hasResourceProperties("AWS::ECR::Repository", {
+            RepositoryName: "dev-package-engine",
+            ImageScanningConfiguration: { ScanOnPush: true },
+            LifecyclePolicy: {
+                LifecyclePolicyText: Match.serializedJson({
+                    rules: [
+                        Match.objectLike({
+                            selection: Match.objectLike({
+                                tagStatus: "untagged",
+                                countType: "sinceImagePushed",
+                                countNumber: 7,
+                            }),
+                        }),
+                        Match.objectLike({
+                            selection: Match.objectLike({
+                                tagStatus: "any",
+                                countType: "imageCountMoreThan",
+                                countNumber: 10,
+                            }),
+                        }),
+                    ],
+                }),
+            },
+        });
+        template.hasOutput("ImageRepositoryUri", {});
+    });
+
+    test("builds a local Dockerfile for ARM64 tasks", () => {
+        const directory = fs.mkdtempSync(path.join(os.tmpdir(), "image-"));
+        fs.writeFileSync(path.join(directory, "Dockerfile"), "FROM scratch\n");
+        const app = new cdk.App();
+        const stack = new CdkQuiltFargate.CdkQuiltFargateStack(app, "AssetStack", {
+            config: {
+                ...config,
+                image: { ...config.image, source: "asset", directory },
+            },
+            env: { account: "123456789012", region: "us-east-1" },
+        });
+        const template = Template.fromStack(stack);
+        expect(JSON.stringify(containerImage(template))).toContain(
+            "container-assets",
+        );
+        const manifest = JSON.parse(fs.readFileSync(
+            path.join(app.synth().directory, "AssetStack.assets.json"),
+            "utf8",
+        ));
+        expect(
+            Object.values<{ source: { platform?: string } }>(
+                manifest.dockerImages,
+            ).map((image) => image.source.platform),
+        ).toEqual(["linux/arm64"]);
+    });
+});
+
+describe("with autoscaling", () => {
+    const template = synth({
+        scaling: validateConfig({
+            ...input,
+            scaling: {
+                minTasks: 1,
+                maxTasks: 4,
+                cpuTargetPercent: 60,
+                apiStepScaling: {
+                    metric: "requestCount",
+                    steps: [
+                        { upper: 100, change: -1 },
+                        { lower: 1000, change: 2 },
+                    ],
+                },
+                scheduled: [
+                    {
+                        name: "NightlyScaleToZero",
+                        schedule: "cron(0 20 ? * MON-FRI *)",
+                        minTasks: 0,
+                        maxTasks: 0,
+                        timeZone: "America/Los_Angeles",
+                    },
+                ],
+            },
+        }).scaling,
+    });
+
+    test("registers the service as a scalable target", () => {
+        template.hasResourceProperties(
+            "AWS::ApplicationAutoScaling::ScalableTarget",
+            {
+                MinCapacity: 1,
+                MaxCapacity: 4,
+                ScheduledActions: [
+                    {
+                        ScheduledActionName: "ScheduleNightlyScaleToZero",
+                        Schedule: "cron(0 20 ? * MON-FRI *)",
+                        Timezone: "America/Los_Angeles",
+                        ScalableTargetAction: { MinCapacity: 0, MaxCapacity: 0 },
+                    },
+                ],
+            },
+        );
+    });
+
+    test("creates target tracking and step scaling policies", () => {
+        template.hasResourceProperties(
+            "AWS::ApplicationAutoScaling::ScalingPolicy",
+            {
+                PolicyType: "TargetTrackingScaling",
+                TargetTrackingScalingPolicyConfiguration: {
+                    PredefinedMetricSpecification: {
+                        PredefinedMetricType: "ECSServiceAverageCPUUtilization",
+                    },
+                    TargetValue: 60,
+                },
+            },
+        );
+        template.resourcePropertiesCountIs(
+            "AWS::ApplicationAutoScaling::ScalingPolicy",
+            { PolicyType: "StepScaling" },
+            2,
+        );
+    });
+});
+
+describe("with API key auth", () => {
+    const template = synth({
+        apiAuth: validateConfig({
+            ...input,
+            apiAuth: {
+                mode: "apiKey",
+                apiKeyNames: ["Producer"],
+                usagePlan: { rateLimit: 10, burstLimit: 20 },
+            },
+        }).apiAuth,
+    });
+
+    test("requires an API key on the public routes", () => {
+        template.hasResourceProperties("AWS::ApiGateway::Method", {
+            HttpMethod: "ANY",
+            ApiKeyRequired: true,
+        });
+        template.hasResourceProperties("AWS::ApiGateway::UsagePlan", {
+            Throttle: { RateLimit: 10, BurstLimit: 20 },
+        });
+        template.resourceCountIs("AWS::ApiGateway::ApiKey", 1);
+    });
+
+    test("routes EventBridge through the IAM-authorized mirror", () => {
+        template.hasResourceProperties("AWS::ApiGateway::Resource", {
+            PathPart: "_internal",
+        });
+        template.hasResourceProperties("AWS::ApiGateway::Method", {
+            HttpMethod: "ANY",
+            AuthorizationType: "AWS_IAM",
+        });
+        const rules = template.findResources("AWS::Events::Rule");
+        const arns = Object.values(rules).map((rule) =>
+            JSON.stringify(rule.Properties.Targets[0].Arn)
+        );
+        expect(arns.some((arn) => arn.includes("/GET/_internal/info")))
+            .toBe(true);
+    });
+});
+
+test("IAM auth signs Step Functions calls", () => {
+    const template = synth({
+        apiAuth: validateConfig({ ...input, apiAuth: { mode: "iam" } })
+            .apiAuth,
+    });
+    template.resourcePropertiesCountIs(
+        "AWS::ApiGateway::Method",
+        { HttpMethod: "ANY", AuthorizationType: "AWS_IAM" },
+        2,
+    );
+    const machines = template.findResources("AWS::StepFunctions::StateMachine");
+    const apiCalls = Object.values(machines)
+        .map((machine) => JSON.stringify(machine.Properties.DefinitionString))
+        .filter((definition) => definition.includes("apigateway:invoke"));
+    expect(apiCalls.length).toBeGreaterThan(0);
+    for (const definition of apiCalls) {
+        expect(definition).toContain('\\"AuthType\\":\\"IAM_ROLE\\"');
+    }
+});
+
+// A container definition as it appears in the synthesized template
+interface ContainerDefinition {
+    Name: string;
+    [property: string]: unknown;
+}
+
+describe("with sidecars and tracing", () => {
+    const { sidecars, telemetry, monitoring } = validateConfig({
+        ...input,
+        sidecars: [
+            {
+                name: "clamav",
+                image: "public.ecr.aws/example/clamav:1.3",
+                ports: [3310],
+                startBeforeEngine: true,
+            },
+        ],
+        telemetry: {
+            traceCollector: "adot",
+            logRouter: "firelens",
+            containerInsights: true,
+        },
+        monitoring: { dashboard: false, alarms: false },
+    });
+    const template = synth({ sidecars, telemetry, monitoring });
+    const containers = () => {
+        const [definition] = Object.values(
+            template.findResources("AWS::ECS::TaskDefinition"),
+        );
+        const definitions: ContainerDefinition[] =
+            definition.Properties.ContainerDefinitions;
+        return new Map(
+            definitions.map((container) => [container.Name, container]),
+        );
+    };
+
+    test("adds the sidecars, collector and log router to the task", () => {
+        const byName = containers();
+        expect([...byName.keys()].sort()).toEqual([
+            "CdkQuiltFargateContainer",
+            "clamav",
+            "log-router",
+            "otel-collector",
+        ]);
+        expect(byName.get("clamav")?.PortMappings).toEqual([
+            { ContainerPort: 3310, Protocol: "tcp" },
+        ]);
+        expect(byName.get("log-router")?.FirelensConfiguration).toEqual({
+            Type: "fluentbit",
+        });
+        for (const name of ["log-router", "otel-collector"]) {
+            expect(byName.get(name)?.Image).toMatch(/:v?\d+(\.\d+)+$/);
+        }
+        expect(byName.get("CdkQuiltFargateContainer")?.DependsOn).toEqual([
+            { Condition: "START", ContainerName: "otel-collector" },
+            { Condition: "START", ContainerName: "clamav" },
+        ]);
+    });
+
+    test("points the engine at the collector and routes its logs", () => {
+        const engine = containers().get("CdkQuiltFargateContainer");
+        expect(engine?.Environment).toEqual(
+            expect.arrayContaining([
+                { Name: "OTEL_EXPORTER_OTLP_ENDPOINT", Value: "http://localhost:4317" },
+                { Name: "OTEL_SERVICE_NAME", Value: "package-engine" },
+                { Name: "AWS_XRAY_DAEMON_ADDRESS", Value: "localhost:2000" },
+            ]),
+        );
+        expect(engine?.LogConfiguration).toEqual({
+            LogDriver: "awsfirelens",
+            Options: expect.objectContaining({
+                Name: "cloudwatch_logs",
+                log_group_name: expect.anything(),
+            }),
+        });
+        template.hasResourceProperties("AWS::IAM::Policy", {
+            PolicyDocument: {
+                Statement: Match.arrayWith([
+                    Match.objectLike({
+                        Action: Match.arrayWith(["xray:PutTraceSegments"]),
+                        Resource: "*",
+                    }),
+                ]),
+            },
+            Roles: [{ Ref: Match.stringLikeRegexp("^ServiceCdkQuiltFargateTaskRole") }],
+        });
+    });
+
+    test("traces the state machines and enables Container Insights", () => {
+        template.hasResourceProperties("AWS::StepFunctions::StateMachine", {
+            StateMachineName: "CdkQuiltGetInfoStateMachine",
+            TracingConfiguration: { Enabled: true },
+        });
+        template.hasResourceProperties("AWS::ECS::Cluster", {
+            ClusterSettings: [{ Name: "containerInsights", Value: "enabled" }],
+        });
+    });
+});
+
+describe("with backend services", () => {
+    const { backends } = validateConfig({
+        ...input,
+        backends: [
+            {
+                name: "Validator",
+                basePath: "validator",
+                container: { port: 8081, cpu: 256, memory: 512 },
+                endpoints: [
+                    {
+                        detailType: "ValidateMetadata",
+                        method: "POST",
+                        path: "/validate",
+                    },
+                ],
+            },
+        ],
+    });
+    const template = synth({ backends });
+
+    test("runs each backend as its own service on the shared cluster", () => {
+        template.resourceCountIs("AWS::ECS::Cluster", 1);
+        template.resourceCountIs("AWS::ECS::Service", 2);
+        template.resourceCountIs("AWS::ElasticLoadBalancingV2::LoadBalancer", 1);
+        template.hasResourceProperties("AWS::ECS::TaskDefinition", {
+            Cpu: "256",
+            Memory: "512",
+            ContainerDefinitions: [
+                Match.objectLike({
+                    Image: Match.objectLike({
+                        "Fn::Join": ["", Match.arrayWith([
+                            Match.stringLikeRegexp("package-engine-validator"),
+                        ])],
+                    }),
+                    PortMappings: [Match.objectLike({ ContainerPort: 8081 })],
+                }),
+            ],
+        });
+        const services = Object.keys(template.findResources("AWS::ECS::Service"));
+        expect(services).toContainEqual(
+            expect.stringMatching(/^BackendsValidatorCdkQuiltFargateService/),
+        );
+    });
+
+    test("gives each backend a listener on the NLB", () => {
+        template.hasResourceProperties(
+            "AWS::ElasticLoadBalancingV2::Listener",
+            { Port: 8081 },
+        );
+        template.hasResourceProperties("AWS::EC2::SecurityGroupIngress", {
+            FromPort: 8081,
+            SourceSecurityGroupId: Match.anyValue(),
+        });
+    });
+
+    test("mounts the backend under its base path", () => {
+        const mounted = Object.entries(
+            template.findResources("AWS::ApiGateway::Resource", {
+                Properties: { PathPart: "validator" },
+            }),
+        );
+        expect(mounted).toHaveLength(1);
+        template.hasResourceProperties("AWS::ApiGateway::Method", {
+            HttpMethod: "ANY",
+            ResourceId: { Ref: mounted[0][0] },
+            Integration: Match.objectLike({
+                Uri: {
+                    "Fn::Join": ["", [
+                        "http://",
+                        Match.anyValue(),
+                        ":8081/",
+                    ]],
+                },
+            }),
+        });
+    });
+
+    test("routes the backend's events to its paths", () => {
+        template.hasResourceProperties("AWS::Events::Rule", {
+            EventPattern: Match.objectLike({
+                "detail-type": ["ValidateMetadata"],
+            }),
+        });
+        const rules = JSON.stringify(
+            template.findResources("AWS::Events::Rule"),
+        );
+        expect(rules).toContain("/POST/validator/validate");
+    });
+});
+
+describe("with notification subscribers", () => {
+    const template = synth({
+        notifications: {
+            subscribers: [
+                {
+                    type: "sqs",
+                    endpoint: "arn:aws:sqs:us-east-1:123456789012:quilt-events",
+                    filter: { detailTypes: ["CreatePackage"] },
+                },
+                {
+                    type: "https",
+                    endpoint: "https://hooks.example.com/quilt",
+                    filter: { statusCodes: ["5xx", 404] },
+                },
+                {
+                    type: "slack",
+                    slackWorkspaceId: "T0123ABCD",
+                    slackChannelId: "C0123ABCD",
+                    filter: { severities: ["WARNING", "ERROR"] },
+                },
+            ],
+        },
+    });
+    const topic = { Ref: Match.stringLikeRegexp("^EventsCdkQuiltFargateTopic") };
+
+    test("keeps the unfiltered email subscription", () => {
+        template.hasResourceProperties("AWS::SNS::Subscription", {
+            Protocol: "email",
+            Endpoint: "test@example.com",
+            TopicArn: topic,
+            FilterPolicy: Match.absent(),
+        });
+    });
+
+    test("filters queue and webhook deliveries on message attributes", () => {
+        template.hasResourceProperties("AWS::SNS::Subscription", {
+            Protocol: "sqs",
+            Endpoint: "arn:aws:sqs:us-east-1:123456789012:quilt-events",
+            RawMessageDelivery: true,
+            FilterPolicy: { detail_type: ["CreatePackage"] },
+        });
+        template.hasResourceProperties("AWS::SNS::Subscription", {
+            Protocol: "https",
+            Endpoint: "https://hooks.example.com/quilt",
+            FilterPolicy: {
+                status_code: [
+                    { numeric: [">=", 500, "<", 600] },
+                    { numeric: ["=", 404] },
+                ],
+            },
+        });
+    });
+
+    test("formats Slack notifications through a filtered forwarder", () => {
+        template.hasResourceProperties("AWS::SNS::Subscription", {
+            Protocol: "lambda",
+            TopicArn: topic,
+            FilterPolicy: { severity: ["WARNING", "ERROR"] },
+        });
+        template.hasResourceProperties(
+            "AWS::Chatbot::SlackChannelConfiguration",
+            {
+                SlackWorkspaceId: "T0123ABCD",
+                SlackChannelId: "C0123ABCD",
+                SnsTopicArns: [
+                    { Ref: Match.stringLikeRegexp("^EventsCdkQuiltSlackC0123ABCDTopic") },
+                ],
+            },
+        );
+    });
+
+    test("publishes attributes and a summary from the state machines", () => {
+        const definitions = Object.values(
+            template.findResources("AWS::StepFunctions::StateMachine"),
+        ).map((machine) => JSON.stringify(machine.Properties.DefinitionString));
+        const notifyGetInfo = definitions.find((definition) =>
+            definition.includes("CdkQuiltNotifyGetInfoTopic")
+        )!;
+        for (const attribute of ["detail_type", "severity", "status", "status_code"]) {
+            expect(notifyGetInfo).toContain(`\\"${attribute}\\":{`);
+        }
+        expect(notifyGetInfo).toContain("Quilt GetInfo returned {} {}");
+        expect(notifyGetInfo).toContain("CdkQuiltGetInfoClassify");
+    });
+});
+
+describe("with WAF and throttling", () => {
+    const template = synth({
+        waf: {
+            managedRuleGroups: ["AWSManagedRulesCommonRuleSet"],
+            rateLimit: 500,
+            allowedIps: ["203.0.113.0/24", "2001:db8::/32"],
+            blockedIps: ["198.51.100.7/32"],
+            allowedCountries: ["US", "CA"],
+            blockedCountries: [],
+        },
+        throttling: {
+            rateLimit: 50,
+            burstLimit: 100,
+            methods: {
+                "GET /info": { rateLimit: 5, cacheTtlSeconds: 300 },
+                "POST /registries/{bucket}/packages": { burstLimit: 2 },
+            },
+            cacheClusterSize: "0.5",
+        },
+    });
+
+    test("associates a web ACL with the stage", () => {
+        template.hasResourceProperties("AWS::WAFv2::WebACL", {
+            Scope: "REGIONAL",
+            DefaultAction: { Allow: {} },
+            Rules: [
+                Match.objectLike({
+                    Name: "AllowedIps",
+                    Priority: 0,
+                    Action: { Allow: {} },
+                    Statement: {
+                        OrStatement: { Statements: Match.arrayWith([]) },
+                    },
+                }),
+                Match.objectLike({ Name: "BlockedIps", Action: { Block: {} } }),
+                Match.objectLike({
+                    Name: "AllowedCountries",
+                    Statement: {
+                        NotStatement: {
+                            Statement: {
+                                GeoMatchStatement: { CountryCodes: ["US", "CA"] },
+                            },
+                        },
+                    },
+                }),
+                Match.objectLike({
+                    Name: "RateLimit",
+                    Statement: {
+                        RateBasedStatement: { Limit: 500, AggregateKeyType: "IP" },
+                    },
+                }),
+                Match.objectLike({
+                    Name: "AWSManagedRulesCommonRuleSet",
+                    OverrideAction: { None: {} },
+                }),
+            ],
+        });
+        template.resourceCountIs("AWS::WAFv2::IPSet", 3);
+        template.hasResourceProperties("AWS::WAFv2::WebACLAssociation", {
+            ResourceArn: Match.objectLike({
+                "Fn::Join": ["", Match.arrayWith(["/stages/"])],
+            }),
+        });
+    });
+
+    test("throttles the stage and individual routes", () => {
+        template.hasResourceProperties("AWS::ApiGateway::Stage", {
+            CacheClusterEnabled: true,
+            CacheClusterSize: "0.5",
+            MethodSettings: Match.arrayWith([
+                Match.objectLike({
+                    HttpMethod: "*",
+                    ResourcePath: "/*",
+                    ThrottlingRateLimit: 50,
+                    ThrottlingBurstLimit: 100,
+                }),
+                Match.objectLike({
+                    HttpMethod: "GET",
+                    ResourcePath: "/~1info",
+                    ThrottlingRateLimit: 5,
+                    CachingEnabled: true,
+                    CacheTtlInSeconds: 300,
+                }),
+                Match.objectLike({
+                    HttpMethod: "POST",
+                    ResourcePath: "/~1registries~1{bucket}~1packages",
+                    ThrottlingBurstLimit: 2,
+                }),
+            ]),
+        });
+    });
+
+    test("routes throttled paths to the same service path", () => {
+        template.hasResourceProperties("AWS::ApiGateway::Method", {
+            HttpMethod: "POST",
+            RequestParameters: { "method.request.path.bucket": true },
+            Integration: Match.objectLike({
+                RequestParameters: {
+                    "integration.request.path.bucket":
+                        "method.request.path.bucket",
+                },
+                Uri: Match.objectLike({
+                    "Fn::Join": [
+                        "",
+                        Match.arrayWith([":8080/registries/{bucket}/packages"]),
+                    ],
+                }),
+            }),
+        });
+    });
+
+    test("leaves the API without a web ACL by default", () => {
+        synth().resourceCountIs("AWS::WAFv2::WebACL", 0);
+    });
+});
+
+describe("in private mode", () => {
+    const template = synth({
+        privateApi: {
+            certificateArn:
+                "arn:aws:acm:us-east-1:123456789012:certificate/abc-123",
+            allowedCidrs: ["10.20.0.0/16"],
+        },
+        apiAuth: { mode: "apiKey", apiKeyNames: ["default"] },
+    });
+    const apiId = (name: string) =>
+        Object.entries(template.findResources("AWS::ApiGateway::RestApi"))
+            .find(([, api]) => api.Properties.Name === name)![0];
+
+    test("uses an internal NLB reachable from the VPC", () => {
+        template.hasResourceProperties(
+            "AWS::ElasticLoadBalancingV2::LoadBalancer",
+            { Scheme: "internal" },
+        );
+        template.hasResourceProperties("AWS::EC2::SecurityGroup", {
+            GroupDescription: "Security group for the service NLB",
+            SecurityGroupIngress: [
+                Match.objectLike({
+                    CidrIp: { "Fn::GetAtt": [Match.anyValue(), "CidrBlock"] },
+                    FromPort: 8080,
+                }),
+            ],
+        });
+    });
+
+    test("serves a private API through an execute-api endpoint", () => {
+        template.hasResourceProperties("AWS::EC2::VPCEndpoint", {
+            ServiceName: "com.amazonaws.us-east-1.execute-api",
+            PrivateDnsEnabled: false,
+        });
+        template.hasResourceProperties("AWS::ApiGateway::RestApi", {
+            Name: "CdkQuiltService",
+            EndpointConfiguration: { Types: ["PRIVATE"] },
+            Policy: {
+                Statement: Match.arrayWith([
+                    Match.objectLike({
+                        Effect: "Deny",
+                        Condition: {
+                            StringNotEquals: {
+                                "aws:SourceVpce": { Ref: Match.anyValue() },
+                            },
+                        },
+                    }),
+                ]),
+            },
+        });
+    });
+
+    test("maps a private custom domain in the private zone", () => {
+        template.resourceCountIs("AWS::ApiGateway::DomainName", 0);
+        template.resourceCountIs("AWS::CertificateManager::Certificate", 0);
+        template.hasResourceProperties("AWS::ApiGateway::DomainNameV2", {
+            DomainName: "package-engine.example.com",
+            CertificateArn:
+                "arn:aws:acm:us-east-1:123456789012:certificate/abc-123",
+            EndpointConfiguration: { Types: ["PRIVATE"] },
+        });
+        template.resourceCountIs(
+            "AWS::ApiGateway::DomainNameAccessAssociation",
+            1,
+        );
+        template.hasResourceProperties("AWS::ApiGateway::BasePathMappingV2", {
+            RestApiId: { Ref: apiId("CdkQuiltService") },
+        });
+        template.hasResourceProperties("AWS::Route53::RecordSet", {
+            Name: "package-engine.example.com.",
+            AliasTarget: Match.objectLike({
+                DNSName: Match.objectLike({
+                    "Fn::Select": Match.arrayWith([
+                        Match.objectLike({
+                            "Fn::Split": Match.arrayWith([
+                                Match.objectLike({
+                                    "Fn::Select": Match.arrayWith([
+                                        Match.objectLike({
+                                            "Fn::GetAtt": [
+                                                Match.stringLikeRegexp(
+                                                    "^FrontDoorExecuteApiEndpoint",
+                                                ),
+                                                "DnsEntries",
+                                            ],
+                                        }),
+                                    ]),
+                                }),
+                            ]),
+                        }),
+                    ]),
+                }),
+            }),
+        });
+    });
+
+    test("sends EventBridge and Step Functions calls to a SigV4 API", () => {
+        const integrationApi = apiId("CdkQuiltIntegration");
+        template.hasResourceProperties("AWS::Events::Rule", {
+            EventPattern: Match.objectLike({ "detail-type": ["GetInfo"] }),
+            Targets: [
+                Match.objectLike({
+                    Arn: Match.objectLike({
+                        "Fn::Join": [
+                            "",
+                            Match.arrayWith([{ Ref: integrationApi }]),
+                        ],
+                    }),
+                }),
+            ],
+        });
+        const methods = Object.values(
+            template.findResources("AWS::ApiGateway::Method", {
+                Properties: { RestApiId: { Ref: integrationApi } },
+            }),
+        );
+        expect(methods.map((method) => method.Properties.AuthorizationType))
+            .toEqual(["AWS_IAM", "AWS_IAM"]);
+        expect(
+            JSON.stringify(
+                template.findResources("AWS::StepFunctions::StateMachine"),
+            ),
+        ).not.toContain("_internal");
+    });
+
+    test("puts the web ACL and rate limits on the integration API", () => {
+        const template = synth({
+            privateApi: {
+                certificateArn:
+                    "arn:aws:acm:us-east-1:123456789012:certificate/abc-123",
+                allowedCidrs: ["10.20.0.0/16"],
+            },
+            waf: validateConfig({ ...input, waf: {} }).waf,
+            throttling: {
+                rateLimit: 50,
+                burstLimit: 100,
+                cacheClusterSize: "0.5",
+                methods: { "GET /info": { rateLimit: 5, cacheTtlSeconds: 300 } },
+            },
+        });
+        const integrationApi = Object.entries(
+            template.findResources("AWS::ApiGateway::RestApi"),
+        ).find(([, api]) => api.Properties.Name === "CdkQuiltIntegration")![0];
+        template.resourceCountIs("AWS::WAFv2::WebACLAssociation", 2);
+        template.hasResourceProperties("AWS::ApiGateway::Stage", {
+            RestApiId: { Ref: integrationApi },
+            CacheClusterEnabled: Match.absent(),
+            MethodSettings: Match.arrayWith([
+                Match.objectLike({
+                    HttpMethod: "*",
+                    ThrottlingRateLimit: 50,
+                    ThrottlingBurstLimit: 100,
+                }),
+                Match.objectLike({
+                    HttpMethod: "GET",
+                    ResourcePath: "/~1info",
+                    ThrottlingRateLimit: 5,
+                    CachingEnabled: Match.absent(),
+                }),
+            ]),
+        });
+    });
+});
+
+describe("with container secrets", () => {
+    const template = synth({
+        secrets: {
+            QUILT_API_KEY: { secret: "quilt/api-key", field: "key" },
+            REGISTRY_TOKEN: {
+                parameter: "/quilt/registry-token",
+                kmsKeyArn:
+                    "arn:aws:kms:us-east-1:123456789012:key/11111111-2222-3333-4444-555555555555",
+            },
+        },
+        redeployOnSecretChange: true,
+    });
+
+    test("injects secrets and parameters into the container", () => {
+        template.hasResourceProperties("AWS::ECS::TaskDefinition", {
+            ContainerDefinitions: [
+                Match.objectLike({
+                    Secrets: [
+                        Match.objectLike({ Name: "QUILT_API_KEY" }),
+                        Match.objectLike({ Name: "REGISTRY_TOKEN" }),
+                    ],
+                }),
+            ],
+        });
+    });
+
+    test("grants the execution role read access to each source", () => {
+        const policies = JSON.stringify(
+            template.findResources("AWS::IAM::Policy"),
+        );
+        expect(policies).toContain("secretsmanager:GetSecretValue");
+        expect(policies).toContain("secret:quilt/api-key-??????");
+        expect(policies).toContain("parameter/quilt/registry-token");
+        expect(policies).toContain("kms:Decrypt");
+    });
+
+    test("redeploys the service when a source changes", () => {
+        template.hasResourceProperties("AWS::Events::Rule", {
+            EventPattern: Match.objectLike({ source: ["aws.secretsmanager"] }),
+        });
+        template.hasResourceProperties("AWS::Events::Rule", {
+            EventPattern: {
+                "source": ["aws.ssm"],
+                "detail-type": ["Parameter Store Change"],
+                "detail": {
+                    name: ["/quilt/registry-token"],
+                    operation: ["Update"],
+                },
+            },
+        });
+    });
+});
+
+test("matches secret changes by name when given a complete ARN", () => {
+    const template = synth({
+        secrets: {
+            DB_PASSWORD: {
+                secret:
+                    "arn:aws:secretsmanager:us-east-1:123456789012:secret:db/password-AbC123",
+            },
+        },
+        redeployOnSecretChange: true,
+    });
+    template.hasResourceProperties("AWS::Events::Rule", {
+        EventPattern: Match.objectLike({
+            source: ["aws.secretsmanager"],
+            detail: Match.objectLike({
+                requestParameters: {
+                    secretId: [
+                        "db/password",
+                        "arn:aws:secretsmanager:us-east-1:123456789012:secret:db/password",
+                        {
+                            prefix:
+                                "arn:aws:secretsmanager:us-east-1:123456789012:secret:db/password-",
+                        },
+                    ],
+                },
+            }),
+        }),
+    });
+});
+
+describe("with registry buckets", () => {
+    const template = synth({
+        registries: [
+            {
+                name: "quilt-registry",
+                kmsKeyArn:
+                    "arn:aws:kms:us-east-1:123456789012:key/11111111-2222-3333-4444-555555555555",
+            },
+            { name: "quilt-staging", create: true },
+            { name: "raw-data", access: "read" },
+        ],
+        defaultRegistry: "quilt-staging",
+    });
+
+    const taskRolePolicy = () => {
+        const taskDefinition = Object.values(
+            template.findResources("AWS::ECS::TaskDefinition"),
+        )[0];
+        const roleId = taskDefinition.Properties.TaskRoleArn["Fn::GetAtt"][0];
+        const policy = Object.values(
+            template.findResources("AWS::IAM::Policy"),
+        ).find((p) => p.Properties.Roles[0].Ref === roleId);
+        return JSON.stringify(policy!.Properties.PolicyDocument);
+    };
+
+    test("creates versioned buckets when requested", () => {
+        template.resourceCountIs("AWS::S3::Bucket", 2);
+        template.hasResourceProperties("AWS::S3::Bucket", {
+            BucketName: "quilt-staging",
+            VersioningConfiguration: { Status: "Enabled" },
+        });
+    });
+
+    test("scopes the task role to the configured buckets", () => {
+        const policy = taskRolePolicy();
+        expect(policy).toContain(":s3:::raw-data/*");
+        expect(policy).toContain(":s3:::quilt-registry/*");
+        expect(policy).toContain("kms:Decrypt");
+        expect(policy).toContain("s3:PutObject");
+        expect(policy).not.toContain("s3:DeleteObject");
+        // raw-data is read-only
+        const statements = JSON.parse(policy).Statement;
+        const writes = statements.filter(
+            (statement: { Action: string | string[] }) =>
+                [statement.Action].flat().includes("s3:PutObject"),
+        );
+        expect(JSON.stringify(writes)).not.toContain("raw-data");
+    });
+
+    test("posts CreatePackage events to the default registry", () => {
+        const rules = JSON.stringify(
+            template.findResources("AWS::Events::Rule"),
+        );
+        expect(rules).toContain("/POST/registries/quilt-staging/packages");
+    });
+});
+
+describe("with S3 ingestion", () => {
+    const template = synth({
+        registries: [{ name: "quilt-registry" }, { name: "uploads", access: "read" }],
+        defaultRegistry: "quilt-registry",
+        ingestion: [
+            {
+                bucket: "uploads",
+                prefixes: ["incoming/"],
+                markerFile: ".quilt-ready",
+                registry: "quilt-registry",
+            },
+        ],
+    });
+
+    test("routes CreatePackage events by bucket_name", () => {
+        template.hasResourceProperties("AWS::Events::Rule", {
+            EventPattern: Match.objectLike({
+                "detail-type": ["CreatePackage"],
+                "detail": { bucket_name: ["quilt-registry"] },
+            }),
+            Targets: [
+                Match.objectLike({
+                    HttpParameters: Match.objectLike({
+                        PathParameterValues: ["$.detail.bucket_name"],
+                    }),
+                }),
+            ],
+        });
+        template.hasResourceProperties("AWS::Events::Rule", {
+            EventPattern: Match.objectLike({
+                detail: { bucket_name: [{ exists: false }] },
+            }),
+        });
+    });
+
+    test("watches marker files under each prefix", () => {
+        template.hasResourceProperties("AWS::Events::Rule", {
+            EventPattern: {
+                "source": ["aws.s3"],
+                "detail-type": ["Object Created"],
+                "detail": {
+                    bucket: { name: ["uploads"] },
+                    object: { key: [{ wildcard: "incoming/*/*/.quilt-ready" }] },
+                },
+            },
+            Targets: [
+                Match.objectLike({
+                    InputTransformer: Match.objectLike({
+                        InputTemplate: Match.stringLikeRegexp('"depth":1'),
+                    }),
+                }),
+            ],
+        });
+    });
+
+    // EventBridge wildcards: `*` matches any run of characters, `/` included
+    const matchesWildcard = (pattern: string, key: string) =>
+        new RegExp(
+            `^${
+                pattern.split("*").map((part) =>
+                    part.replace(/[.+?^${}()|[\]\\]/g, "\\$&")
+                ).join(".*")
+            }$`,
+        ).test(key);
+
+    test("does not match markers above the package folder", () => {
+        const pattern = "incoming/*/*/.quilt-ready";
+        expect(matchesWildcard(pattern, "incoming/ns/pkg/.quilt-ready"))
+            .toBe(true);
+        expect(matchesWildcard(pattern, "incoming/ns/.quilt-ready"))
+            .toBe(false);
+        expect(matchesWildcard(pattern, "incoming/.quilt-ready")).toBe(false);
+    });
+
+    test("ignores markers below the package folder", () => {
+        // The rule matches these, so the state machine checks the depth
+        expect(
+            matchesWildcard(
+                "incoming/*/*/.quilt-ready",
+                "incoming/ns/pkg/sub/.quilt-ready",
+            ),
+        ).toBe(true);
+        const [machine] = Object.values(
+            template.findResources("AWS::StepFunctions::StateMachine", {
+                Properties: {
+                    StateMachineName: "CdkQuiltIngestionStateMachine",
+                },
+            }),
+        );
+        const definition = JSON.parse(
+            (machine.Properties.DefinitionString["Fn::Join"][1] as unknown[])
+                .map((part) => typeof part === "string" ? part : "")
+                .join(""),
+        );
+        expect(definition.StartAt).toBe("SplitMarkerKey");
+        expect(definition.States.SplitMarkerKey.Parameters).toMatchObject({
+            "count.$": "States.ArrayLength(States.StringSplit($.key, '/'))",
+            "expected.$": "States.MathAdd($.depth, 3)",
+        });
+        expect(definition.States.SplitMarkerKey.Next).toBe("CheckMarkerDepth");
+        expect(definition.States.CheckMarkerDepth).toEqual({
+            Type: "Choice",
+            Choices: [
+                {
+                    Variable: "$.split.count",
+                    NumericEqualsPath: "$.split.expected",
+                    Next: "BuildPackageRequest",
+                },
+            ],
+            Default: "IgnoreMarkerKey",
+        });
+        expect(definition.States.IgnoreMarkerKey.Type).toBe("Succeed");
+    });
+
+    test("deduplicates markers before publishing", () => {
+        template.resourceCountIs("AWS::DynamoDB::Table", 1);
+        const machines = JSON.stringify(
+            template.findResources("AWS::StepFunctions::StateMachine"),
+        );
+        expect(machines).toContain("attribute_not_exists(markerId)");
+        expect(machines).toContain("DynamoDB.ConditionalCheckFailedException");
+    });
+});
+
+describe("with the package workflow", () => {
+    const template = synth({
+        packageWorkflow: validateConfig({ ...input, packageWorkflow: {} })
+            .packageWorkflow,
+    });
+    const definition = () =>
+        JSON.stringify(
+            template.findResources("AWS::StepFunctions::StateMachine", {
+                Properties: {
+                    StateMachineName: "CdkQuiltCreatePackageStateMachine",
+                },
+            }),
+        );
+
+    test("sends CreatePackage events to the workflow", () => {
+        template.hasResourceProperties("AWS::Events::Rule", {
+            EventPattern: Match.objectLike({
+                "detail-type": ["CreatePackage"],
+            }),
+            Targets: [
+                Match.objectLike({
+                    Arn: {
+                        Ref: Match.stringLikeRegexp(
+                            "CdkQuiltCreatePackageStateMachine",
+                        ),
+                    },
+                    InputPath: "$.detail",
+                }),
+            ],
+        });
+    });
+
+    test("polls the job status with capped backoff", () => {
+        const machine = definition();
+        expect(machine).toContain("/registries/{}/packages/jobs/{}");
+        expect(machine).toContain("$.poll.waitSeconds");
+        expect(machine).toContain("NotifyPackageFailed");
+    });
+
+    test("waits for a task token in callback mode", () => {
+        const callback = synth({
+            packageWorkflow: validateConfig({
+                ...input,
+                packageWorkflow: { completion: "callback" },
+            }).packageWorkflow,
+        });
+        const machines = JSON.stringify(
+            callback.findResources("AWS::StepFunctions::StateMachine"),
+        );
+        expect(machines).toContain("apigateway:invoke.waitForTaskToken");
+        expect(machines).toContain("X-Quilt-Task-Token.$");
+        callback.hasResourceProperties("AWS::IAM::Policy", {
+            PolicyDocument: {
+                Statement: Match.arrayWith([
+                    Match.objectLike({
+                        Action: Match.arrayWith(["states:SendTaskSuccess"]),
+                    }),
+                ]),
+            },
+        });
+    });
+});
+
+describe("with a dedicated event bus", () => {
+    const template = synth({
+        eventBus: {
+            publisherAccounts: ["210987654321"],
+            publisherRoleArns: ["arn:aws:iam::111122223333:role/publisher"],
+            schemas: true,
+            archiveRetentionDays: 90,
+        },
+    });
+
+    test("lets only the listed accounts and roles publish", () => {
+        template.hasResourceProperties("AWS::Events::EventBus", {
+            Name: "CdkQuiltEventBus",
+        });
+        const statements = Object.values(
+            template.findResources("AWS::Events::EventBusPolicy"),
+        ).map((policy) => policy.Properties.Statement);
+        expect(
+            statements
+                .filter((statement) => statement.Effect === "Allow")
+                .map((statement) => statement.Principal.AWS),
+        ).toEqual([
+            {
+                "Fn::Join": [
+                    "",
+                    ["arn:", { Ref: "AWS::Partition" }, ":iam::210987654321:root"],
+                ],
+            },
+            "arn:aws:iam::111122223333:role/publisher",
+        ]);
+        // Same-account principals with events:PutEvents are turned away too
+        const deny = statements.find((statement) => statement.Effect === "Deny");
+        expect(deny).toMatchObject({
+            Action: "events:PutEvents",
+            Principal: { AWS: "*" },
+        });
+        const allowed = deny.Condition.ArnNotLike["aws:PrincipalArn"];
+        expect(allowed).toContain("arn:aws:iam::111122223333:role/publisher");
+        expect(allowed).toContainEqual({
+            "Fn::GetAtt": [
+                expect.stringMatching(/^EventsCdkQuiltInvokeApiRole/),
+                "Arn",
+            ],
+        });
+        expect(allowed).toContainEqual({
+            "Fn::GetAtt": [
+                expect.stringMatching(/^EventsCdkQuiltRedriveStateMachineRole/),
+                "Arn",
+            ],
+        });
+    });
+
+    test("allows all principals when no roles are listed", () => {
+        const open = synth({
+            eventBus: { ...DEFAULT_EVENT_BUS, publisherAccounts: ["210987654321"] },
+        });
+        const statements = JSON.stringify(
+            open.findResources("AWS::Events::EventBusPolicy"),
+        );
+        expect(statements).not.toContain("Deny");
+    });
+
+    test("matches endpoint events on the bus", () => {
+        const busRef = { Ref: Match.stringLikeRegexp("^EventsCdkQuiltEventBus") };
+        template.hasResourceProperties("AWS::Events::Rule", {
+            EventBusName: busRef,
+            EventPattern: Match.objectLike({ "detail-type": ["GetInfo"] }),
+        });
+        template.hasResourceProperties("AWS::IAM::Policy", {
+            PolicyDocument: {
+                Statement: Match.arrayWith([
+                    Match.objectLike({
+                        Action: "events:PutEvents",
+                        Resource: {
+                            "Fn::GetAtt": [
+                                Match.stringLikeRegexp("^EventsCdkQuiltEventBus"),
+                                "Arn",
+                            ],
+                        },
+                    }),
+                ]),
+            },
+        });
+    });
+
+    test("archives the service's events for replay", () => {
+        template.hasResourceProperties("AWS::Events::Archive", {
+            ArchiveName: "CdkQuiltEventArchive",
+            EventPattern: { source: ["quilt.package-engine"] },
+            RetentionDays: 90,
+        });
+        template.hasOutput("EventArchiveArn", {
+            Value: {
+                "Fn::GetAtt": [
+                    Match.stringLikeRegexp("^EventsCdkQuiltEventBusCdkQuiltEventArchive"),
+                    "Arn",
+                ],
+            },
+        });
+    });
+
+    test("registers a schema per detail type", () => {
+        template.resourceCountIs("AWS::EventSchemas::Registry", 1);
+        template.resourceCountIs("AWS::EventSchemas::Schema", 4);
+        const schema = Object.values(
+            template.findResources("AWS::EventSchemas::Schema", {
+                Properties: {
+                    SchemaName: "quilt.package-engine@CreatePackage",
+                },
+            }),
+        )[0];
+        expect(
+            JSON.parse(schema.Properties.Content).components.schemas
+                .CreatePackage.required,
+        ).toEqual(["package_name", "s3_folder"]);
+    });
+
+    test("keeps events on the default bus unless configured", () => {
+        const defaults = synth();
+        defaults.resourceCountIs("AWS::Events::EventBus", 0);
+        defaults.resourceCountIs("AWS::Events::Archive", 0);
+        defaults.resourceCountIs("AWS::EventSchemas::Schema", 0);
+    });
+});
+
+describe("error handling", () => {
+    const template = synth({
+        errorHandling: {
+            ...config.errorHandling,
+            taskRetry: { maxAttempts: 5, intervalSeconds: 3, backoffRate: 1.5 },
+            targetRetryAttempts: 4,
+        },
+    });
+    const machines = JSON.stringify(
+        template.findResources("AWS::StepFunctions::StateMachine"),
+    );
+
+    test("sends undeliverable events to the dead-letter queue", () => {
+        template.hasResourceProperties("AWS::Events::Rule", {
+            EventPattern: Match.objectLike({ "detail-type": ["GetInfo"] }),
+            Targets: [
+                Match.objectLike({
+                    DeadLetterConfig: {
+                        Arn: {
+                            "Fn::GetAtt": [
+                                Match.stringLikeRegexp(
+                                    "CdkQuiltEventsDeadLetterQueue",
+                                ),
+                                "Arn",
+                            ],
+                        },
+                    },
+                    RetryPolicy: {
+                        MaximumRetryAttempts: 4,
+                        MaximumEventAgeInSeconds: 86400,
+                    },
+                }),
+            ],
+        });
+    });
+
+    test("retries tasks and notifies the topic on failure", () => {
+        expect(machines).toMatch(
+            /IntervalSeconds\\+":3,\\+"MaxAttempts\\+":5,\\+"BackoffRate\\+":1.5/,
+        );
+        expect(machines).toContain("GetInfoNotify");
+        expect(machines).toMatch(/Error\\+":\\+"GetInfoFailed/);
+    });
+
+    test("creates a redrive state machine for the queue", () => {
+        template.hasResourceProperties("AWS::StepFunctions::StateMachine", {
+            StateMachineName: "CdkQuiltRedriveStateMachine",
+        });
+        expect(machines).toContain("sqs:receiveMessage");
+        template.hasOutput("DeadLetterQueueUrl", {});
+    });
+
+    test("skips dead letters that are not events", () => {
+        const [machine] = Object.values(
+            template.findResources("AWS::StepFunctions::StateMachine", {
+                Properties: { StateMachineName: "CdkQuiltRedriveStateMachine" },
+            }),
+        );
+        const definition = JSON.parse(
+            (machine.Properties.DefinitionString["Fn::Join"][1] as unknown[])
+                .map((part) => typeof part === "string" ? part : "")
+                .join(""),
+        );
+        const { States } = definition.States.RedriveDeadLetters.ItemProcessor;
+        // A probe schedule's dead letter has a body of `{}`
+        const [guard, aws] = States.CanRepublish.Choices;
+        expect(guard).toEqual({
+            Not: {
+                And: [
+                    { Variable: "$.event.source", IsPresent: true },
+                    { Variable: "$.event['detail-type']", IsPresent: true },
+                ],
+            },
+            Next: "SkipNonEvent",
+        });
+        expect(aws).toMatchObject({
+            Variable: "$.event.source",
+            StringMatches: "aws.*",
+        });
+        expect(States.SkipNonEvent.Type).toBe("Pass");
+    });
+});
+
+describe("with health probes", () => {
+    const template = synth({
+        probes: validateConfig({
+            ...input,
+            probes: { GetHealth: { schedule: "rate(5 minutes)" } },
+        }).probes,
+    });
+
+    test("schedules the probe state machine", () => {
+        template.hasResourceProperties("AWS::Scheduler::Schedule", {
+            ScheduleExpression: "rate(5 minutes)",
+            Target: Match.objectLike({
+                Arn: {
+                    Ref: Match.stringLikeRegexp("CdkQuiltGetHealthStateMachine"),
+                },
+            }),
+        });
+    });
+
+    test("records runs and notifies only on changes worth reporting", () => {
+        const machine = JSON.stringify(
+            template.findResources("AWS::StepFunctions::StateMachine", {
+                Properties: { StateMachineName: "CdkQuiltGetHealthStateMachine" },
+            }),
+        );
+        expect(machine).toContain("GetHealthProbeDEGRADED");
+        expect(machine).toContain("if_not_exists(#status, :none)");
+        expect(machine).toContain("GetHealthProbeQuiet");
+        template.hasResourceProperties("AWS::DynamoDB::Table", {
+            KeySchema: [
+                { AttributeName: "probe", KeyType: "HASH" },
+                { AttributeName: "at", KeyType: "RANGE" },
+            ],
+        });
+    });
+
+    test("rejects probes for endpoints without a state machine", () => {
+        expect(() =>
+            synth({
+                probes: {
+                    CreatePackage: {
+                        schedule: "rate(1 hour)",
+                        healthyStatuses: ["ok"],
+                    },
+                },
+            })
+        ).toThrow(/Probes need an endpoint with a state machine: CreatePackage/);
+    });
+});
+
+describe("monitoring", () => {
+    const template = synth({
+        monitoring: {
+            ...config.monitoring,
+            thresholds: { ...config.monitoring.thresholds, cpuPercent: 65 },
+        },
+    });
+
+    test("builds a dashboard over the service metrics", () => {
+        template.resourceCountIs("AWS::CloudWatch::Dashboard", 1);
+        template.hasResourceProperties("AWS::ECS::Cluster", {
+            ClusterSettings: [{ Name: "containerInsights", Value: "enabled" }],
+        });
+    });
+
+    test("alarms on overridable thresholds and notifies the topic", () => {
+        template.hasResourceProperties("AWS::CloudWatch::Alarm", {
+            AlarmName: "CdkQuiltServiceCpu",
+            Threshold: 65,
+            AlarmActions: [{ Ref: Match.stringLikeRegexp("CdkQuiltFargateTopic") }],
+            OKActions: [{ Ref: Match.stringLikeRegexp("CdkQuiltFargateTopic") }],
+        });
+        template.hasResourceProperties("AWS::CloudWatch::Alarm", {
+            AlarmName: "CdkQuiltGetInfoStateMachineFailures",
+            EvaluationPeriods: 1,
+        });
+        template.hasResourceProperties("AWS::CloudWatch::Alarm", {
+            AlarmName: "CdkQuiltRunningTasks",
+            ComparisonOperator: "LessThanThreshold",
+        });
+    });
+
+    test("can be turned off", () => {
+        const quiet = synth({
+            monitoring: { ...config.monitoring, dashboard: false, alarms: false },
+        });
+        quiet.resourceCountIs("AWS::CloudWatch::Dashboard", 0);
+        // Only the deployment rollback alarms remain
+        const alarms = quiet.findResources("AWS::CloudWatch::Alarm");
+        for (const alarm of Object.values(alarms)) {
+            expect(alarm.Properties.AlarmName).toMatch(/^CdkQuiltDeploy/);
+        }
+    });
+});
+
+test("rolling deployments roll back on failures and alarms", () => {
+    const template = synth();
+    template.hasResourceProperties("AWS::ECS::Service", {
+        DeploymentConfiguration: Match.objectLike({
+            DeploymentCircuitBreaker: { Enable: true, Rollback: true },
+            Alarms: Match.objectLike({
+                Enable: true,
+                Rollback: true,
+                AlarmNames: Match.arrayWith([
+                    { Ref: Match.stringLikeRegexp("CdkQuiltDeployApi5xx") },
+                ]),
+            }),
+        }),
+    });
+});
+
+describe("with blue/green deployments", () => {
+    const template = synth({
+        deployment: validateConfig({
+            ...input,
+            deployment: {
+                mode: "blueGreen",
+                trafficShift: "linear",
+                shiftPercent: 20,
+                shiftIntervalMinutes: 2,
+            },
+        }).deployment,
+    });
+
+    test("hands the service to CodeDeploy with a test listener", () => {
+        template.hasResourceProperties("AWS::ECS::Service", {
+            DeploymentController: { Type: "CODE_DEPLOY" },
+        });
+        template.hasResourceProperties(
+            "AWS::ElasticLoadBalancingV2::Listener",
+            { Port: 9000 },
+        );
+        template.resourceCountIs("AWS::ElasticLoadBalancingV2::TargetGroup", 2);
+    });
+
+    test("shifts traffic linearly and rolls back on alarms", () => {
+        template.hasResourceProperties("AWS::CodeDeploy::DeploymentConfig", {
+            TrafficRoutingConfig: {
+                Type: "TimeBasedLinear",
+                TimeBasedLinear: {
+                    LinearInterval: 2,
+                    LinearPercentage: 20,
+                },
+            },
+        });
+        template.hasResourceProperties("AWS::CodeDeploy::DeploymentGroup", {
+            AutoRollbackConfiguration: Match.objectLike({
+                Enabled: true,
+                Events: Match.arrayWith(["DEPLOYMENT_STOP_ON_ALARM"]),
+            }),
+            AlarmConfiguration: Match.objectLike({ Enabled: true }),
+        });
+    });
+
+    test("validates the new tasks before shifting traffic", () => {
+        template.hasResourceProperties("AWS::Lambda::Function", {
+            Environment: {
+                Variables: Match.objectLike({
+                    VALIDATION_PATHS: '["/health","/info"]',
+                }),
+            },
+        });
+        template.hasOutput("AppSpecTemplate", {});
+    });
+
+    test("admits only the hook to the test listener", () => {
+        const rules = Object.values(
+            template.findResources("AWS::EC2::SecurityGroupIngress", {
+                Properties: { FromPort: 9000 },
+            }),
+        );
+        expect(rules).toHaveLength(1);
+        expect(rules[0].Properties.CidrIp).toBeUndefined();
+        template.hasResourceProperties("AWS::EC2::SecurityGroupIngress", {
+            FromPort: 9000,
+            SourceSecurityGroupId: {
+                "Fn::GetAtt": [
+                    Match.stringLikeRegexp("CdkQuiltDeploymentHookSecurityGroup"),
+                    "GroupId",
+                ],
+            },
+        });
+        const groups = JSON.stringify(
+            template.findResources("AWS::EC2::SecurityGroup"),
+        );
+        expect(groups).not.toMatch(/"FromPort":9000[^}]*0\.0\.0\.0\/0/);
+    });
+
+    test("adds the hook's endpoints when the VPC has no NAT", () => {
+        const isolated = synth({
+            network: validateConfig({
+                ...input,
+                network: { natGateways: 0, vpcEndpoints: true },
+            }).network,
+            deployment: validateConfig({
+                ...input,
+                deployment: { mode: "blueGreen" },
+            }).deployment,
+        });
+        for (const service of ["codedeploy", "ec2"]) {
+            isolated.hasResourceProperties("AWS::EC2::VPCEndpoint", {
+                ServiceName: `com.amazonaws.us-east-1.${service}`,
+                VpcEndpointType: "Interface",
+            });
+        }
+    });
+});
+
+test("only the NLB can reach the tasks", () => {
+    const template = synth();
+    template.hasResourceProperties("AWS::EC2::SecurityGroupIngress", {
+        FromPort: 8080,
+        GroupId: {
+            "Fn::GetAtt": [Match.stringLikeRegexp("ServiceSecurityGroup"), "GroupId"],
+        },
+        SourceSecurityGroupId: {
+            "Fn::GetAtt": [Match.stringLikeRegexp("NlbSecurityGroup"), "GroupId"],
+        },
+    });
+    const groups = JSON.stringify(
+        template.findResources("AWS::EC2::SecurityGroup", {
+            Properties: { GroupDescription: "Security group for Fargate service" },
+        }),
+    );
+    expect(groups).not.toContain("CidrBlock");
+});
+
+test("the internet-facing NLB only admits the VPC", () => {
+    const template = synth();
+    template.hasResourceProperties(
+        "AWS::ElasticLoadBalancingV2::LoadBalancer",
+        { Scheme: "internet-facing" },
+    );
+    const ingress = JSON.stringify([
+        ...Object.values(template.findResources("AWS::EC2::SecurityGroup"))
+            .map((group) => group.Properties.SecurityGroupIngress),
+        ...Object.values(template.findResources("AWS::EC2::SecurityGroupIngress")),
+    ]);
+    expect(ingress).not.toContain("0.0.0.0/0");
+    template.hasResourceProperties("AWS::EC2::SecurityGroup", {
+        GroupDescription: "Security group for the service NLB",
+        SecurityGroupIngress: [
+            Match.objectLike({
+                CidrIp: {
+                    "Fn::GetAtt": [
+                        Match.stringLikeRegexp("CdkQuiltFargateVpc"),
+                        "CidrBlock",
+                    ],
+                },
+                FromPort: 8080,
+            }),
+        ],
+    });
+});
+
+test("runs privately through VPC endpoints without NAT", () => {
+    const template = synth({
+        network: validateConfig({
+            ...input,
+            network: { maxAzs: 3, natGateways: 0, vpcEndpoints: true },
+        }).network,
+    });
+    template.resourceCountIs("AWS::EC2::NatGateway", 0);
+    template.hasResourceProperties("AWS::EC2::VPCEndpoint", {
+        ServiceName: "com.amazonaws.us-east-1.ecr.dkr",
+        VpcEndpointType: "Interface",
+    });
+    template.hasResourceProperties("AWS::EC2::VPCEndpoint", {
+        VpcEndpointType: "Gateway",
+    });
+    template.resourceCountIs("AWS::EC2::VPCEndpoint", 6);
+});
+
+test("deploys into an existing VPC and subnets", () => {
+    const template = synth({
+        network: validateConfig({
+            ...input,
+            network: {
+                vpcId: "vpc-0abc",
+                subnetIds: ["subnet-0aaa", "subnet-0bbb"],
+            },
+        }).network,
+    });
+    template.resourceCountIs("AWS::EC2::VPC", 0);
+    template.hasResourceProperties("AWS::ECS::Service", {
+        NetworkConfiguration: {
+            AwsvpcConfiguration: Match.objectLike({
+                Subnets: ["subnet-0aaa", "subnet-0bbb"],
+            }),
+        },
+    });
+});
+
+describe("NLB access logs", () => {
+    const logAttribute = (key: string, value: unknown) =>
+        Match.objectLike({
+            LoadBalancerAttributes: Match.arrayWith([{ Key: key, Value: value }]),
+        });
+
+    test("grants the log delivery principals in a known region", () => {
+        const template = synth();
+        template.hasResourceProperties(
+            "AWS::ElasticLoadBalancingV2::LoadBalancer",
+            logAttribute("access_logs.s3.enabled", "true"),
+        );
+        const policy = JSON.stringify(
+            template.findResources("AWS::S3::BucketPolicy"),
+        );
+        expect(policy).toContain("delivery.logs.amazonaws.com");
+        expect(policy).toContain("127311923021");
+    });
+
+    test("uses the service principal in regions without an ELB account", () => {
+        const template = synth({}, {
+            account: "123456789012",
+            region: "ap-southeast-4",
+        });
+        const policy = JSON.stringify(
+            template.findResources("AWS::S3::BucketPolicy"),
+        );
+        expect(policy).toContain("logdelivery.elasticloadbalancing.amazonaws.com");
+        expect(policy).toContain("iam::123456789012:root");
+    });
+
+    test("maps the ELB account at deploy time when environment-agnostic", () => {
+        const template = synth({}, {}).toJSON();
+        const mappings: { [id: string]: { [region: string]: unknown } } =
+            template.Mappings;
+        const [name, mapping] = Object.entries(mappings)
+            .find(([id]) => id.startsWith("ServiceElbAccountMap"))!;
+        expect(mapping["us-east-1"]).toEqual({
+            account: "127311923021",
+        });
+        expect(JSON.stringify(template.Resources)).toContain(
+            `"Fn::FindInMap":["${name}",{"Ref":"AWS::Region"},"account"`,
+        );
+    });
+
+    test("can be disabled", () => {
+        const template = synth({ accessLogs: { enabled: false } });
+        template.resourceCountIs("AWS::S3::Bucket", 0);
+        expect(
+            JSON.stringify(
+                template.findResources("AWS::ElasticLoadBalancingV2::LoadBalancer"),
+            ),
+        ).not.toContain("access_logs");
+    });
+
+    test("can log to a central bucket", () => {
+        const template = synth({
+            accessLogs: {
+                enabled: true,
+                bucketName: "org-log-archive",
+                prefix: "quilt",
+            },
+        });
+        template.resourceCountIs("AWS::S3::Bucket", 0);
+        template.hasResourceProperties(
+            "AWS::ElasticLoadBalancingV2::LoadBalancer",
+            logAttribute("access_logs.s3.bucket", "org-log-archive"),
+        );
+    });
+});
+
+describe("least-privilege IAM", () => {
+    test("scopes the invoke role to this stack", () => {
+        const template = synth();
+        const policies = JSON.stringify(
+            template.findResources("AWS::IAM::Policy", {
+                Properties: {
+                    Roles: [{ Ref: Match.stringLikeRegexp("CdkQuiltInvokeApiRole") }],
+                },
+            }),
+        );
+        expect(policies).toContain("/GET/info");
+        expect(policies).toContain("event-bus/default");
+        expect(policies).not.toContain("FullAccess");
+        template.hasResourceProperties("AWS::IAM::Role", {
+            AssumeRolePolicyDocument: Match.objectLike({
+                Statement: [
+                    Match.objectLike({
+                        Principal: { Service: "events.amazonaws.com" },
+                    }),
+                ],
+            }),
+            ManagedPolicyArns: Match.absent(),
+        });
+    });
+
+    test("strict mode passes for the whole stack", () => {
+        expect(() =>
+            synth({
+                strictIam: true,
+                deployment: { ...config.deployment, mode: "blueGreen" },
+            })
+        ).not.toThrow();
+    });
+
+    test("strict mode checks resource policies too", () => {
+        const app = new cdk.App();
+        const stack = new CdkQuiltFargate.CdkQuiltFargateStack(
+            app,
+            "MyTestStack",
+            {
+                config: { ...config, strictIam: true },
+                env: { account: "123456789012", region: "us-east-1" },
+            },
+        );
+        const bucket = new s3.Bucket(stack, "Uploads");
+        bucket.addToResourcePolicy(
+            new iam.PolicyStatement({
+                actions: ["s3:*"],
+                resources: [bucket.bucketArn, bucket.arnForObjects("*")],
+                principals: [new iam.AccountRootPrincipal()],
+            }),
+        );
+        expect(() => Template.fromStack(stack)).toThrow(
+            /UploadsPolicy\w* allows wildcard action 's3:\*'/,
+        );
+    });
+});
+
+test("generates rules and state machines from configured endpoints", () => {
+    const template = synth({
+        endpoints: [
+            {
+                detailType: "GetVersion",
+                method: "GET",
+                path: "/version",
+                stateMachine: true,
+            },
+        ],
+    });
+    template.hasResourceProperties("AWS::Events::Rule", {
+        EventPattern: Match.objectLike({ "detail-type": ["GetVersion"] }),
+    });
+    template.hasResourceProperties("AWS::StepFunctions::StateMachine", {
+        StateMachineName: "CdkQuiltGetVersionStateMachine",
+    });
+});
+
+test("environments in one app do not share physical names", () => {
+    const app = new cdk.App();
+    const environments = ["dev", "staging"];
+    const stacks = environments.map((environmentName) =>
+        new CdkQuiltFargate.CdkQuiltFargateStack(
+            app,
+            `MyTestStack-${environmentName}`,
+            {
+                config: validateConfig({ ...input, environmentName }),
+                env: { account: "123456789012", region: "us-east-1" },
+            },
+        )
+    );
+    const names = stacks.map((stack, i) => {
+        const environmentName = environments[i];
+        const template = Template.fromStack(stack);
+        template.hasResourceProperties("AWS::ApiGateway::Stage", {
+            StageName: environmentName,
+        });
+        return [
+            ...Object.values(template.findResources("AWS::SNS::Topic")),
+            ...Object.values(
+                template.findResources(
+                    "AWS::ElasticLoadBalancingV2::LoadBalancer",
+                ),
+            ),
+            ...Object.values(
+                template.findResources("AWS::StepFunctions::StateMachine"),
+            ),
+        ].map((resource) =>
+            resource.Properties.TopicName ?? resource.Properties.Name ??
+                resource.Properties.StateMachineName
+        );
+    });
+    expect(names[0]).toContain("dev-quilt-nlb");
+    expect(names[1]).toContain("staging-CdkQuiltFargateTopic");
+    for (const name of names[0]) {
+        expect(names[1]).not.toContain(name);
+    }
 });
@@ -0,0 +1,622 @@
+import * as cdk from "aws-cdk-lib";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import {
+    ConfigValidationError,
+    DEFAULT_EVENT_BUS,
+    DEFAULT_PACKAGE_WORKFLOW,
+    QuiltFargateConfigInput,
+    configFromEnv,
+    environmentNames,
+    loadConfig,
+    mergeConfig,
+    validateConfig,
+} from "../lib/config";
+
+const base = {
+    email: "test@example.com",
+    projectName: "package-engine",
+    zoneDomain: "example.com",
+    zoneID: "Z0000000000000000000",
+};
+
+describe("validateConfig", () => {
+    test("fills container defaults", () => {
+        const config = validateConfig(base);
+        expect(config.stageName).toBe("prod");
+        expect(config.subdomain).toBe("package-engine");
+        expect(config.eventSource).toBe("quilt.package-engine");
+        expect(config.container.port).toBe(3000);
+        expect(config.container.cpu).toBe(256);
+        expect(config.container.healthCheckPath).toBe("/health");
+    });
+
+    test("defaults the health check port to the container port", () => {
+        const config = validateConfig({ ...base, container: { port: 8080 } });
+        expect(config.container.healthCheckPort).toBe(8080);
+    });
+
+    test("reports missing required fields together", () => {
+        try {
+            validateConfig({});
+            fail("expected validation to throw");
+        } catch (err) {
+            expect(err).toBeInstanceOf(ConfigValidationError);
+            expect((err as ConfigValidationError).issues).toHaveLength(4);
+        }
+    });
+
+    test("rejects invalid Fargate cpu/memory pairs", () => {
+        expect(() =>
+            validateConfig({ ...base, container: { cpu: 256, memory: 4096 } })
+        ).toThrow(/'container.memory' 4096 is not valid for cpu 256/);
+        expect(() =>
+            validateConfig({ ...base, container: { cpu: 300 } })
+        ).toThrow(/'container.cpu' must be one of/);
+    });
+
+    test("rejects a health check port that differs from the container port", () => {
+        expect(() =>
+            validateConfig({
+                ...base,
+                container: { port: 3000, healthCheckPort: 8080 },
+            })
+        ).toThrow(/must match 'container.port'/);
+    });
+});
+
+test("rejects name prefixes that overflow physical name limits", () => {
+    expect(() =>
+        validateConfig({ ...base, namePrefix: "much-too-long-prefix" })
+    ).toThrow(/'namePrefix' must be at most 10/);
+});
+
+test("validates scaling bounds and schedules", () => {
+    expect(validateConfig({ ...base, scaling: { minTasks: 2 } }).scaling)
+        .toMatchObject({ minTasks: 2, maxTasks: 2 });
+    try {
+        validateConfig({
+            ...base,
+            scaling: {
+                minTasks: 3,
+                maxTasks: 2,
+                cpuTargetPercent: 150,
+                apiStepScaling: { metric: "latency", steps: [{ change: 1 }] },
+                scheduled: [
+                    { name: "Night", schedule: "0 20 * * *", minTasks: 0, maxTasks: 0 },
+                ],
+            },
+        });
+        fail("expected validation to throw");
+    } catch (err) {
+        expect((err as ConfigValidationError).issues).toEqual([
+            "'scaling.minTasks' (3) exceeds 'scaling.maxTasks' (2)",
+            "'scaling.cpuTargetPercent' must be in (0, 100]: 150",
+            "'scaling.apiStepScaling.steps' needs at least 2 intervals",
+            "'scaling.scheduled[0]'.schedule must be a cron(), rate() or at() expression: 0 20 * * *",
+        ]);
+    }
+});
+
+test("checks API auth options against the selected mode", () => {
+    expect(validateConfig(base).apiAuth.mode).toBe("none");
+    expect(() =>
+        validateConfig({
+            ...base,
+            apiAuth: { mode: "iam", usagePlan: { rateLimit: 5 } },
+        })
+    ).toThrow(/'apiAuth.usagePlan' requires mode 'apiKey'/);
+    expect(() =>
+        validateConfig({
+            ...base,
+            apiAuth: { mode: "cognito", userPoolArn: "not-an-arn" },
+        })
+    ).toThrow(/not a Cognito user pool ARN/);
+});
+
+test("requires one source per container secret", () => {
+    expect(() =>
+        validateConfig({
+            ...base,
+            secrets: {
+                PUBLIC_DNS_NAME: { secret: "dns" },
+                BOTH: { secret: "a", parameter: "/b" },
+                FIELD: { parameter: "/c", field: "key" },
+            },
+        })
+    ).toThrow(ConfigValidationError);
+    expect(() => validateConfig({ ...base, redeployOnSecretChange: true }))
+        .toThrow(/requires at least one entry in 'secrets'/);
+});
+
+test("defaults the registry to the first writable bucket", () => {
+    expect(validateConfig(base).defaultRegistry).toBe("udp-spec");
+    expect(
+        validateConfig({
+            ...base,
+            registries: [
+                { name: "raw-data", access: "read" },
+                { name: "quilt-registry" },
+            ],
+        }).defaultRegistry,
+    ).toBe("quilt-registry");
+    expect(() =>
+        validateConfig({
+            ...base,
+            registries: [{ name: "raw-data", access: "read" }],
+        })
+    ).toThrow(/'defaultRegistry' must name a read\/write entry/);
+});
+
+test("requires ingestion buckets to be known registries", () => {
+    const registries = [{ name: "uploads", access: "read" as const }];
+    expect(() =>
+        validateConfig({ ...base, registries, ingestion: [{ bucket: "uploads" }] })
+    ).toThrow(/'ingestion\[0\]'.registry must be a read\/write entry/);
+    expect(() =>
+        validateConfig({
+            ...base,
+            registries: [{ name: "quilt-registry" }],
+            ingestion: [{ bucket: "elsewhere", prefixes: ["incoming"] }],
+        })
+    ).toThrow(/bucket must be listed in 'registries'[\s\S]*ending in '\/'/);
+});
+
+test("checks the package workflow status path and timings", () => {
+    expect(
+        validateConfig({ ...base, packageWorkflow: {} }).packageWorkflow,
+    ).toEqual(DEFAULT_PACKAGE_WORKFLOW);
+    expect(() =>
+        validateConfig({
+            ...base,
+            packageWorkflow: {
+                statusPath: "/jobs/{id}",
+                initialWaitSeconds: 90,
+            },
+        })
+    ).toThrow(/use only \{job_id\}[\s\S]*initialWaitSeconds' exceeds/);
+});
+
+test("checks sidecars and telemetry", () => {
+    expect(() =>
+        validateConfig({
+            ...base,
+            sidecars: [
+                { name: "log-router", image: "fluent/fluent-bit" },
+                { name: "cache", image: "redis", cpu: 256 },
+            ],
+            telemetry: { fireLensOutput: { Name: "datadog" } },
+        })
+    ).toThrow(
+        /sidecars\[0\]\.name[\s\S]*'sidecars' reserve 320 CPU units[\s\S]*fireLensOutput' needs logRouter/,
+    );
+});
+
+test("keeps backend ports, paths and endpoint ids apart", () => {
+    expect(() =>
+        validateConfig({
+            ...base,
+            backends: [
+                {
+                    name: "Validator",
+                    basePath: "validator",
+                    container: { port: 3000 },
+                    endpoints: [
+                        { detailType: "GetInfo", method: "GET", path: "/info" },
+                    ],
+                },
+                { name: "Renderer", basePath: "validator", container: { port: 8082 } },
+            ],
+        })
+    ).toThrow(
+        /backends\[0\]\.container\.port[\s\S]*backends\[1\]\.basePath[\s\S]*already used by another service: GetInfo/,
+    );
+});
+
+test("keeps throttled routes out of backend paths", () => {
+    expect(() =>
+        validateConfig({
+            ...base,
+            backends: [
+                { name: "Validator", basePath: "validator", container: { port: 8081 } },
+            ],
+            throttling: { methods: { "GET /validator/info": { rateLimit: 5 } } },
+        })
+    ).toThrow(/"GET \/validator\/info"\]' is under backend basePath 'validator'/);
+});
+
+test("keeps backend ports off sidecar and test listener ports", () => {
+    expect(() =>
+        validateConfig({
+            ...base,
+            sidecars: [{ name: "clamav", image: "clamav:1.3", ports: [3310] }],
+            deployment: { mode: "blueGreen" },
+            backends: [
+                { name: "Scanner", basePath: "scanner", container: { port: 3310 } },
+                {
+                    name: "Renderer",
+                    basePath: "renderer",
+                    container: { port: 8082 },
+                    sidecars: [{ name: "proxy", image: "proxy:1.0", ports: [9000] }],
+                },
+            ],
+        })
+    ).toThrow(
+        /backends\[0\]\.container\.port' is already used[\s\S]*backends\[1\]\.sidecars\[0\]\.ports' is already used by another service: 9000/,
+    );
+});
+
+test("checks notification subscribers", () => {
+    expect(() =>
+        validateConfig({
+            ...base,
+            notifications: {
+                subscribers: [
+                    { type: "sqs", endpoint: "arn:aws:sqs:us-east-1:123456789012:q.fifo" },
+                    { type: "slack", slackWorkspaceId: "T0123" },
+                    {
+                        type: "email",
+                        endpoint: "ops@example.com",
+                        filter: { statusCodes: ["5XX"] },
+                    },
+                ],
+            },
+        })
+    ).toThrow(
+        /subscribers\[0\]\.endpoint[\s\S]*subscribers\[1\]\.slackChannelId[\s\S]*subscribers\[2\]\.filter\.statusCodes/,
+    );
+});
+
+test("rejects repeated Slack channels and queues", () => {
+    const slack = { type: "slack", slackWorkspaceId: "T0123", slackChannelId: "C0123" } as const;
+    expect(() =>
+        validateConfig({
+            ...base,
+            notifications: {
+                subscribers: [
+                    { type: "sqs", endpoint: "arn:aws:sqs:us-east-1:123456789012:alerts" },
+                    slack,
+                    { type: "sqs", endpoint: "arn:aws:sqs:us-west-2:123456789012:alerts" },
+                    { ...slack, filter: { severities: ["ERROR"] } },
+                ],
+            },
+        })
+    ).toThrow(
+        /subscribers\[2\]\.endpoint' repeats subscribers\[0\][\s\S]*subscribers\[3\]\.slackChannelId' repeats subscribers\[1\]/,
+    );
+});
+
+test("requires a certificate ARN for private mode", () => {
+    expect(() =>
+        validateConfig({
+            ...base,
+            privateApi: { certificateArn: "cert", allowedCidrs: ["10.0.0.0"] },
+        })
+    ).toThrow(/privateApi.certificateArn[\s\S]*privateApi.allowedCidrs/);
+    const input = {
+        ...base,
+        privateApi: {
+            certificateArn:
+                "arn:aws:acm:us-east-1:123456789012:certificate/abc",
+            allowedCidrs: "10.0.0.0/8",
+        },
+    } as unknown as QuiltFargateConfigInput;
+    expect(() => validateConfig(input))
+        .toThrow(/'privateApi.allowedCidrs' must be a list/);
+});
+
+test("checks WAF rules and throttling routes", () => {
+    expect(validateConfig({ ...base, waf: {} }).waf?.managedRuleGroups)
+        .toEqual([
+            "AWSManagedRulesCommonRuleSet",
+            "AWSManagedRulesKnownBadInputsRuleSet",
+        ]);
+    expect(() =>
+        validateConfig({
+            ...base,
+            waf: { rateLimit: 5, allowedIps: ["10.0.0.1"], blockedCountries: ["usa"] },
+            throttling: {
+                methods: {
+                    "/info": {},
+                    "POST /packages": { cacheTtlSeconds: 60 },
+                },
+            },
+        })
+    ).toThrow(
+        /waf.rateLimit[\s\S]*waf.allowedIps[\s\S]*waf.blockedCountries[\s\S]*"\/info"[\s\S]*only applies to GET/,
+    );
+});
+
+test("reports WAF lists given as scalars", () => {
+    // As a YAML file could supply them
+    const input = {
+        ...base,
+        waf: {
+            managedRuleGroups: "AWSManagedRulesCommonRuleSet",
+            allowedIps: "10.0.0.0/8",
+            blockedCountries: "CN",
+        },
+    } as unknown as QuiltFargateConfigInput;
+    expect(() => validateConfig(input)).toThrow(
+        /waf.managedRuleGroups[\s\S]*waf.allowedIps' must be a list[\s\S]*waf.blockedCountries' must be a list/,
+    );
+});
+
+test("checks the image source", () => {
+    expect(validateConfig(base).image.source).toEqual("existing");
+    expect(() =>
+        validateConfig({
+            ...base,
+            image: { source: "managed", digest: "latest", maxImageCount: 0 },
+        })
+    ).toThrow(/'image.digest' must be[\s\S]*'image.maxImageCount'/);
+    expect(() =>
+        validateConfig({
+            ...base,
+            image: { source: "asset", directory: os.tmpdir() },
+        })
+    ).toThrow(/'image.dockerfile' not found/);
+});
+
+test("checks event bus publishers and archive retention", () => {
+    expect(validateConfig({ ...base, eventBus: {} }).eventBus).toEqual(
+        DEFAULT_EVENT_BUS,
+    );
+    expect(() =>
+        validateConfig({
+            ...base,
+            eventBus: {
+                publisherAccounts: ["12345"],
+                publisherRoleArns: ["arn:aws:iam::123456789012:user/alice"],
+                archiveRetentionDays: -1,
+            },
+        })
+    ).toThrow(/publisherAccounts[\s\S]*publisherRoleArns[\s\S]*archiveRetentionDays/);
+});
+
+test("bounds error handling settings", () => {
+    expect(
+        validateConfig({
+            ...base,
+            errorHandling: { taskRetry: { maxAttempts: 1 } },
+        }).errorHandling.taskRetry,
+    ).toEqual({ maxAttempts: 1, intervalSeconds: 2, backoffRate: 2 });
+    expect(() =>
+        validateConfig({
+            ...base,
+            errorHandling: { targetRetryAttempts: 200, maxEventAgeHours: 0 },
+        })
+    ).toThrow(/targetRetryAttempts' must be an integer from 0 to 185[\s\S]*maxEventAgeHours/);
+});
+
+test("requires a schedule expression for each probe", () => {
+    expect(
+        validateConfig({
+            ...base,
+            probes: { GetHealth: { schedule: "rate(1 minute)" } },
+        }).probes.GetHealth.healthyStatuses,
+    ).toEqual(["ok", "healthy", "pass"]);
+    expect(() =>
+        validateConfig({
+            ...base,
+            probes: { GetInfo: { schedule: "every 5 minutes" } },
+        })
+    ).toThrow(/'probes.GetInfo'.schedule must be a cron\(\)/);
+});
+
+test("skips the running task alarm when scaling to zero", () => {
+    const monitoring = validateConfig({
+        ...base,
+        scaling: { minTasks: 0, maxTasks: 2 },
+        monitoring: { thresholds: { cpuPercent: 70 } },
+    }).monitoring;
+    expect(monitoring.thresholds.minRunningTasks).toBe(0);
+    expect(monitoring.thresholds.cpuPercent).toBe(70);
+    expect(() =>
+        validateConfig({ ...base, monitoring: { thresholds: { memoryPercent: 120 } } })
+    ).toThrow(/'monitoring.thresholds.memoryPercent' must be at most 100/);
+});
+
+test("checks blue/green deployment settings", () => {
+    expect(() =>
+        validateConfig({
+            ...base,
+            deployment: { mode: "blueGreen", testListenerPort: 3000 },
+            secrets: { TOKEN: { parameter: "/quilt/token" } },
+            redeployOnSecretChange: true,
+        })
+    ).toThrow(/testListenerPort' must differ[\s\S]*not supported with blueGreen/);
+});
+
+test("requires endpoints for a VPC without NAT", () => {
+    expect(() =>
+        validateConfig({
+            ...base,
+            network: { natGateways: 0, subnetIds: ["subnet-0aaa"] },
+        })
+    ).toThrow(/subnetIds' requires 'network.vpcId'[\s\S]*requires 'network.vpcEndpoints'/);
+});
+
+test("requires NAT for the trace collector and log router", () => {
+    const network = { natGateways: 0, vpcEndpoints: true };
+    expect(validateConfig({ ...base, network }).network.natGateways).toBe(0);
+    expect(() =>
+        validateConfig({
+            ...base,
+            network,
+            telemetry: { traceCollector: "none", logRouter: "firelens" },
+        })
+    ).toThrow(/'logRouter: firelens' need 'network.natGateways' of at least 1/);
+});
+
+test("rejects access log settings it cannot use", () => {
+    expect(() =>
+        validateConfig({
+            ...base,
+            accessLogs: { enabled: false, prefix: "nlb/" },
+        })
+    ).toThrow(/prefix' must not start or end with '\/'[\s\S]*require 'accessLogs.enabled'/);
+});
+
+describe("loadConfig", () => {
+    test("layers context, file and environment", () => {
+        const dir = fs.mkdtempSync(path.join(os.tmpdir(), "quilt-config-"));
+        const file = path.join(dir, "config.yaml");
+        fs.writeFileSync(
+            file,
+            "email: file@example.com\nprojectName: from-file\ncontainer:\n  cpu: 512\n  memory: 1024\n",
+        );
+        const app = new cdk.App({
+            context: {
+                quiltConfigFile: file,
+                quilt: {
+                    email: "context@example.com",
+                    projectName: "from-context",
+                    zoneID: "Z1",
+                },
+            },
+        });
+        const config = loadConfig(app, {
+            env: {
+                QUILT_ZONE_DOMAIN: "example.org",
+                QUILT_CONTAINER_MEMORY: "2048",
+            },
+        });
+        expect(config).toMatchObject({
+            email: "file@example.com",
+            projectName: "from-file",
+            zoneID: "Z1",
+            zoneDomain: "example.org",
+            container: { cpu: 512, memory: 2048 },
+        });
+        fs.rmSync(dir, { recursive: true });
+    });
+
+    test("lets a config file override the cdk.json context", () => {
+        const dir = fs.mkdtempSync(path.join(os.tmpdir(), "quilt-config-"));
+        const file = path.join(dir, "config.json");
+        fs.writeFileSync(
+            file,
+            JSON.stringify({
+                email: "team@example.org",
+                projectName: "other-engine",
+                zoneDomain: "example.org",
+                zoneID: "Z9999999999999999999",
+            }),
+        );
+        const cdkJson = JSON.parse(
+            fs.readFileSync(path.join(__dirname, "..", "cdk.json"), "utf8"),
+        );
+        expect(cdkJson.context.quilt).toBeDefined();
+        const app = new cdk.App({ context: cdkJson.context });
+        const config = loadConfig(app, { env: { QUILT_CONFIG_FILE: file } });
+        expect(config).toMatchObject({
+            email: "team@example.org",
+            projectName: "other-engine",
+            zoneDomain: "example.org",
+            zoneID: "Z9999999999999999999",
+        });
+        fs.rmSync(dir, { recursive: true });
+    });
+
+    test("applies per-environment overrides and defaults", () => {
+        const app = new cdk.App({
+            context: {
+                quilt: {
+                    ...base,
+                    environments: {
+                        dev: { container: { cpu: 256, memory: 512 } },
+                        prod: {
+                            stageName: "prod",
+                            subdomain: "package-engine",
+                            namePrefix: "",
+                            container: { cpu: 1024, memory: 2048 },
+                        },
+                    },
+                },
+            },
+        });
+        expect(environmentNames(app, {})).toEqual(["dev", "prod"]);
+
+        const dev = loadConfig(app, { environment: "dev", env: {} });
+        expect(dev).toMatchObject({
+            environmentName: "dev",
+            stageName: "dev",
+            subdomain: "package-engine-dev",
+            namePrefix: "dev",
+            eventSource: "quilt.package-engine.dev",
+            container: { cpu: 256, memory: 512 },
+        });
+
+        const prod = loadConfig(app, { environment: "prod", env: {} });
+        expect(prod).toMatchObject({
+            stageName: "prod",
+            subdomain: "package-engine",
+            namePrefix: "",
+            eventSource: "quilt.package-engine",
+            container: { cpu: 1024, memory: 2048 },
+        });
+
+        expect(() => loadConfig(app, { environment: "qa", env: {} }))
+            .toThrow(/Unknown environment 'qa'/);
+    });
+
+    test("merges nested sections through an environment", () => {
+        const app = new cdk.App({
+            context: {
+                quilt: {
+                    ...base,
+                    network: { vpcId: "vpc-0abc", subnetIds: ["subnet-0aaa"] },
+                    monitoring: {
+                        dashboard: false,
+                        thresholds: { api5xxErrors: 7, apiLatencyMs: 2500 },
+                    },
+                    errorHandling: {
+                        taskRetry: { maxAttempts: 5, intervalSeconds: 3 },
+                    },
+                    registries: [{ name: "shared-registry" }],
+                    environments: {
+                        dev: {
+                            network: { subnetIds: ["subnet-0ddd"] },
+                            monitoring: { thresholds: { api5xxErrors: 50 } },
+                            errorHandling: { taskRetry: { maxAttempts: 1 } },
+                            registries: [{ name: "dev-registry" }],
+                        },
+                    },
+                },
+            },
+        });
+        const dev = loadConfig(app, { environment: "dev", env: {} });
+        expect(dev.network).toMatchObject({
+            vpcId: "vpc-0abc",
+            subnetIds: ["subnet-0ddd"],
+        });
+        expect(dev.monitoring).toMatchObject({
+            dashboard: false,
+            thresholds: { api5xxErrors: 50, apiLatencyMs: 2500 },
+        });
+        expect(dev.errorHandling.taskRetry).toMatchObject({
+            maxAttempts: 1,
+            intervalSeconds: 3,
+        });
+        expect(dev.registries.map(({ name }) => name)).toEqual([
+            "dev-registry",
+        ]);
+    });
+
+    test("replaces a secret reference rather than merging it", () => {
+        expect(
+            mergeConfig(
+                { secrets: { API_KEY: { secret: "quilt/api-key" } } },
+                { secrets: { API_KEY: { parameter: "/quilt/api-key" } } },
+            ).secrets,
+        ).toEqual({ API_KEY: { parameter: "/quilt/api-key" } });
+    });
+
+    test("parses numeric container settings from the environment", () => {
+        expect(configFromEnv({ QUILT_CONTAINER_PORT: "8080" })).toEqual({
+            container: { port: 8080 },
+        });
+    });
+});
@@ -0,0 +1,182 @@
+import {
+    EndpointDefinition,
+    defaultEndpoints,
+    endpointDetailSchemas,
+    endpointIssues,
+    endpointsFromOpenApi,
+    mountEndpoints,
+    resolveEndpoints,
+} from "../lib/endpoints";
+
+describe("endpointIssues", () => {
+    test("accepts the built-in endpoints", () => {
+        expect(endpointIssues(defaultEndpoints("udp-spec", []))).toEqual([]);
+    });
+
+    test("checks path parameters against their mappings", () => {
+        const issues = endpointIssues([
+            {
+                detailType: "GetPackage",
+                method: "GET",
+                path: "/registries/{bucket}/packages/{name}",
+                pathParams: ["$.detail.bucket"],
+            },
+        ]);
+        expect(issues).toEqual([
+            "'endpoints[0]' (GetPackage) path '/registries/{bucket}/packages/{name}' has 2 parameters but 1 values were provided",
+        ]);
+    });
+
+    test("rejects state machines for parameterized endpoints", () => {
+        const issues = endpointIssues([
+            {
+                detailType: "Search",
+                method: "GET",
+                path: "/search",
+                queryParams: { q: "$.detail.q" },
+                stateMachine: true,
+            },
+        ]);
+        expect(issues).toEqual([
+            "'endpoints[0]' (Search).stateMachine needs an endpoint without parameters",
+        ]);
+    });
+});
+
+describe("endpointsFromOpenApi", () => {
+    test("maps tagged operations and their parameters", () => {
+        const endpoints = endpointsFromOpenApi({
+            openapi: "3.0.0",
+            paths: {
+                "/registries/{bucket}/packages": {
+                    parameters: [{ name: "bucket", in: "path" }],
+                    post: {
+                        "x-quilt-event": "CreatePackage",
+                        "parameters": [{ name: "package_handle", in: "query" }],
+                    },
+                    get: { operationId: "listPackages" },
+                },
+                "/version": {
+                    get: {
+                        "x-quilt-event": {
+                            detailType: "GetVersion",
+                            stateMachine: true,
+                        },
+                    },
+                },
+            },
+        });
+        expect(endpoints).toEqual<EndpointDefinition[]>([
+            {
+                detailType: "CreatePackage",
+                method: "POST",
+                path: "/registries/{bucket}/packages",
+                pathParams: ["$.detail.bucket"],
+                queryParams: { package_handle: "$.detail.package_handle" },
+                stateMachine: undefined,
+            },
+            {
+                detailType: "GetVersion",
+                method: "GET",
+                path: "/version",
+                pathParams: undefined,
+                queryParams: undefined,
+                stateMachine: true,
+            },
+        ]);
+    });
+});
+
+describe("resolveEndpoints", () => {
+    test("replaces defaults with the same id", () => {
+        const endpoints = resolveEndpoints(defaultEndpoints("udp-spec", []), [
+            { detailType: "GetHealth", method: "GET", path: "/healthz" },
+        ]);
+        expect(endpoints.find((e) => e.detailType === "GetHealth"))
+            .toEqual({ detailType: "GetHealth", method: "GET", path: "/healthz" });
+        expect(endpoints).toHaveLength(5);
+    });
+
+    test("throws on invalid results", () => {
+        expect(() =>
+            resolveEndpoints([], [
+                { detailType: "Bad", method: "GET", path: "bad" },
+            ])
+        ).toThrow(/path must start with '\/'/);
+    });
+});
+
+describe("endpointDetailSchemas", () => {
+    test("describes CreatePackage and the getters", () => {
+        const schemas = endpointDetailSchemas(defaultEndpoints("udp-spec", []));
+        expect([...schemas.keys()]).toEqual([
+            "CreatePackage",
+            "GetInfo",
+            "GetHealth",
+            "TestApiKey",
+        ]);
+        expect(schemas.get("CreatePackage")).toEqual({
+            type: "object",
+            properties: {
+                bucket_name: { type: "string" },
+                package_name: { type: "string" },
+                s3_folder: { type: "string" },
+                metadata: { type: "object" },
+            },
+            required: ["package_name", "s3_folder"],
+        });
+        expect(schemas.get("GetInfo")).toEqual({
+            type: "object",
+            properties: {},
+            required: [],
+        });
+    });
+
+    test("requires fields every endpoint of a type fills a path with", () => {
+        const schemas = endpointDetailSchemas([
+            {
+                detailType: "GetPackage",
+                method: "GET",
+                path: "/registries/{bucket}/packages/{name}",
+                pathParams: ["$.detail.bucket", "$.detail.name"],
+            },
+            {
+                id: "GetDefaultPackage",
+                detailType: "GetPackage",
+                method: "GET",
+                path: "/packages/{name}",
+                pathParams: ["$.detail.name"],
+                queryParams: { top_hash: "$.detail.hash" },
+            },
+        ]);
+        expect(schemas.get("GetPackage")).toEqual({
+            type: "object",
+            properties: {
+                bucket: { type: "string" },
+                name: { type: "string" },
+                hash: { type: "string" },
+            },
+            required: ["name"],
+        });
+    });
+});
+
+test("mountEndpoints prefixes paths with the base path", () => {
+    expect(
+        mountEndpoints("renderer", [
+            {
+                detailType: "RenderPreview",
+                method: "POST",
+                path: "/previews/{key}",
+                pathParams: ["$.detail.key"],
+            },
+        ]),
+    ).toEqual([
+        {
+            detailType: "RenderPreview",
+            method: "POST",
+            path: "/renderer/previews/{key}",
+            pathParams: ["$.detail.key"],
+        },
+    ]);
+});
@@ -0,0 +1,97 @@
+import { iamPolicyIssues } from "../lib/iam-policy-check";
+
+function policy(statement: object) {
+    return {
+        Type: "AWS::IAM::Policy",
+        Properties: {
+            PolicyDocument: { Version: "2012-10-17", Statement: [statement] },
+        },
+    };
+}
+
+test("flags wildcard and whole-service actions", () => {
+    const issues = iamPolicyIssues({
+        Resources: {
+            Everything: policy({ Effect: "Allow", Action: "*", Resource: "*" }),
+            AllOfS3: policy({
+                Effect: "Allow",
+                Action: ["s3:GetObject*", "s3:*"],
+                Resource: "*",
+            }),
+            Denied: policy({ Effect: "Deny", Action: "*", Resource: "*" }),
+        },
+    });
+    expect(issues).toEqual([
+        "Everything allows wildcard action '*'",
+        "AllOfS3 allows wildcard action 's3:*'",
+    ]);
+});
+
+test("flags broad AWS managed policies on roles", () => {
+    const issues = iamPolicyIssues({
+        Resources: {
+            Role: {
+                Type: "AWS::IAM::Role",
+                Properties: {
+                    ManagedPolicyArns: [
+                        {
+                            "Fn::Join": [
+                                "",
+                                [
+                                    "arn:",
+                                    { Ref: "AWS::Partition" },
+                                    ":iam::aws:policy/AmazonSNSFullAccess",
+                                ],
+                            ],
+                        },
+                        {
+                            "Fn::Sub":
+                                "arn:${AWS::Partition}:iam::aws:policy/service-role/AWSLambdaBasicExecutionRole",
+                        },
+                    ],
+                },
+            },
+        },
+    });
+    expect(issues).toEqual(["Role attaches broad managed policy AmazonSNSFullAccess"]);
+});
+
+test("flags wildcard actions in resource policies", () => {
+    const statement = {
+        Effect: "Allow",
+        Action: "s3:*",
+        Principal: { AWS: "arn:aws:iam::123456789012:root" },
+        Resource: "arn:aws:s3:::uploads/*",
+    };
+    const issues = iamPolicyIssues({
+        Resources: {
+            BucketPolicy: {
+                Type: "AWS::S3::BucketPolicy",
+                Properties: {
+                    Bucket: "uploads",
+                    PolicyDocument: { Statement: [statement] },
+                },
+            },
+            QueuePolicy: {
+                Type: "AWS::SQS::QueuePolicy",
+                Properties: {
+                    PolicyDocument: {
+                        Statement: [{ ...statement, Action: "sqs:*" }],
+                    },
+                },
+            },
+            BusPolicy: {
+                Type: "AWS::Events::EventBusPolicy",
+                Properties: {
+                    StatementId: "Publish",
+                    Statement: { ...statement, Action: "events:*" },
+                },
+            },
+        },
+    });
+    expect(issues).toEqual([
+        "BucketPolicy allows wildcard action 's3:*'",
+        "QueuePolicy allows wildcard action 'sqs:*'",
+        "BusPolicy allows wildcard action 'events:*'",
+    ]);
+});
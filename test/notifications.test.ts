@@ -0,0 +1,54 @@
+import { notificationFilterPolicy, notificationSubscribers } from "../lib";
+
+describe("notificationSubscribers", () => {
+    test("adds the owner's email unless it is listed", () => {
+        const webhook = {
+            type: "https" as const,
+            endpoint: "https://hooks.example.com/quilt",
+        };
+        expect(
+            notificationSubscribers("ops@example.com", { subscribers: [webhook] }),
+        ).toEqual([{ type: "email", endpoint: "ops@example.com" }, webhook]);
+
+        const filtered = {
+            type: "email" as const,
+            endpoint: "ops@example.com",
+            filter: { severities: ["ERROR" as const] },
+        };
+        expect(
+            notificationSubscribers("ops@example.com", { subscribers: [filtered] }),
+        ).toEqual([filtered]);
+    });
+});
+
+describe("notificationFilterPolicy", () => {
+    test("is undefined when nothing is filtered", () => {
+        expect(notificationFilterPolicy()).toBeUndefined();
+        expect(notificationFilterPolicy({ detailTypes: [] })).toBeUndefined();
+    });
+
+    test("maps each filter to an attribute", () => {
+        const policy = notificationFilterPolicy({
+            detailTypes: ["GetHealth"],
+            severities: ["ERROR"],
+            statuses: ["DEGRADED", "FAILED"],
+            statusCodes: [404, "5xx"],
+        })!;
+        expect(
+            Object.fromEntries(
+                Object.entries(policy).map(([name, filter]) => [
+                    name,
+                    filter.conditions,
+                ]),
+            ),
+        ).toEqual({
+            detail_type: ["GetHealth"],
+            severity: ["ERROR"],
+            status: ["DEGRADED", "FAILED"],
+            status_code: [
+                { numeric: ["=", 404] },
+                { numeric: [">=", 500, "<", 600] },
+            ],
+        });
+    });
+});
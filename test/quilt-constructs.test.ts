@@ -0,0 +1,72 @@
+import * as cdk from "aws-cdk-lib";
+import * as ecr from "aws-cdk-lib/aws-ecr";
+import { Match, Template } from "aws-cdk-lib/assertions";
+import {
+    DEFAULT_CONTAINER_CONFIG,
+    QuiltApiFrontDoor,
+    QuiltEventIntegration,
+    QuiltFargateService,
+    defaultEndpoints,
+} from "../lib";
+
+// Another team's stack reusing the front door and event bridge
+function compose(): { stack: cdk.Stack; template: Template } {
+    const app = new cdk.App();
+    const stack = new cdk.Stack(app, "TeamStack", {
+        env: { account: "123456789012", region: "us-east-1" },
+    });
+    const service = new QuiltFargateService(stack, "Engine", {
+        container: { ...DEFAULT_CONTAINER_CONFIG, port: 8080 },
+        repository: ecr.Repository.fromRepositoryName(
+            stack,
+            "Repo",
+            "package-engine",
+        ),
+    });
+    const frontDoor = new QuiltApiFrontDoor(stack, "Api", {
+        loadBalancer: service.loadBalancer.nlb,
+        port: 8080,
+        zoneID: "Z0000000000000000000",
+        zoneDomain: "example.com",
+        subdomain: "packages",
+        apiAuth: { mode: "iam", apiKeyNames: [] },
+    });
+    new QuiltEventIntegration(stack, "Events", {
+        frontDoor,
+        eventSource: "team.packages",
+        subscribers: [{ type: "email", endpoint: "team@example.com" }],
+        endpoints: defaultEndpoints("team-registry", []),
+        defaultRegistry: "team-registry",
+    });
+    return { stack, template: Template.fromStack(stack) };
+}
+
+describe("the constructs outside CdkQuiltFargateStack", () => {
+    const { template } = compose();
+
+    test("serve the API on the custom domain", () => {
+        template.hasResourceProperties("AWS::ApiGateway::DomainName", {
+            DomainName: "packages.example.com",
+        });
+        template.hasResourceProperties("AWS::ApiGateway::Stage", {
+            StageName: "prod",
+        });
+        template.resourceCountIs("AWS::ApiGateway::VpcLink", 1);
+    });
+
+    test("route the team's events to the API", () => {
+        template.hasResourceProperties("AWS::Events::Rule", {
+            EventPattern: Match.objectLike({
+                source: ["team.packages"],
+                "detail-type": ["GetInfo"],
+            }),
+        });
+    });
+
+    test("keep construct ids in logical IDs", () => {
+        const queues = Object.keys(template.findResources("AWS::SQS::Queue"));
+        expect(queues).toEqual([
+            expect.stringMatching(/^EventsCdkQuiltEventsDeadLetterQueue/),
+        ]);
+    });
+});
@@ -0,0 +1,112 @@
+import { defaultEndpoints } from "../lib/endpoints";
+import {
+    CREATE_PACKAGE_FIELDS,
+    detailQueryParams,
+    eventDetailIssues,
+    putEventsEntry,
+} from "../lib/quilt-events";
+
+describe("eventDetailIssues", () => {
+    test("accepts a complete CreatePackage detail", () => {
+        expect(
+            eventDetailIssues("CreatePackage", {
+                bucket_name: "quilt-registry",
+                package_name: "team/results",
+                s3_folder: "s3://uploads/team/results/",
+                metadata: { run: 42 },
+            }),
+        ).toEqual([]);
+    });
+
+    test("reports missing, mistyped and unknown fields", () => {
+        expect(
+            eventDetailIssues("CreatePackage", {
+                package_handle: "team/results",
+                s3_folder: "uploads/team/results",
+                metadata: "run=42",
+            }),
+        ).toEqual([
+            "CreatePackage has no field 'package_handle'",
+            "CreatePackage.package_name is required",
+            "CreatePackage.s3_folder must match /^s3:\\/\\/[^/]+\\//: uploads/team/results",
+            "CreatePackage.metadata must be a JSON object",
+        ]);
+    });
+
+    test("only requires an object for other detail types", () => {
+        expect(eventDetailIssues("GetInfo", {})).toEqual([]);
+        expect(eventDetailIssues("Search", { q: "results" })).toEqual([]);
+        expect(eventDetailIssues("Search", [])).toEqual([
+            "Search detail must be an object",
+        ]);
+    });
+});
+
+describe("putEventsEntry", () => {
+    test("builds an entry for the stack's event source", () => {
+        expect(
+            putEventsEntry(
+                "quilt.package-engine",
+                "CreatePackage",
+                {
+                    package_name: "team/results",
+                    s3_folder: "s3://uploads/team/results/",
+                },
+                "CdkQuiltEventBus",
+            ),
+        ).toEqual({
+            Source: "quilt.package-engine",
+            DetailType: "CreatePackage",
+            Detail: '{"package_name":"team/results","s3_folder":"s3://uploads/team/results/"}',
+            EventBusName: "CdkQuiltEventBus",
+        });
+        expect(putEventsEntry("quilt.package-engine", "GetHealth", {}))
+            .toEqual({
+                Source: "quilt.package-engine",
+                DetailType: "GetHealth",
+                Detail: "{}",
+            });
+    });
+
+    test("carries the trace header", () => {
+        const traceHeader =
+            "Root=1-5759e988-bd862e3fe1be46a994272793;Parent=53995c3f42cd8ad8;Sampled=1";
+        expect(
+            putEventsEntry(
+                "quilt.package-engine",
+                "GetInfo",
+                {},
+                undefined,
+                traceHeader,
+            ).TraceHeader,
+        ).toBe(traceHeader);
+    });
+
+    test("throws on an invalid detail", () => {
+        expect(() =>
+            putEventsEntry("quilt.package-engine", "CreatePackage", {
+                package_name: "results",
+                s3_folder: "s3://uploads/results/",
+            })
+        ).toThrow(/Invalid CreatePackage event:\n  - CreatePackage.package_name/);
+    });
+});
+
+test("CreatePackage rules map the fields producers send", () => {
+    const rules = defaultEndpoints("quilt-registry", []).filter((endpoint) =>
+        endpoint.detailType === "CreatePackage"
+    );
+    for (const rule of rules) {
+        expect(rule.queryParams).toEqual(
+            detailQueryParams(CREATE_PACKAGE_FIELDS),
+        );
+        for (const mapping of [
+            ...rule.pathParams ?? [],
+            ...Object.values(rule.queryParams ?? {}),
+        ]) {
+            expect(Object.keys(CREATE_PACKAGE_FIELDS)).toContain(
+                mapping.replace("$.detail.", ""),
+            );
+        }
+    }
+});